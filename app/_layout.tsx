@@ -8,9 +8,15 @@ import { StatusBar } from "expo-status-bar";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import "react-native-reanimated";
 
+import { AssetMetadataProvider } from "@/contexts/asset-metadata-context";
 import { ImageSwipeProvider } from "@/contexts/image-swipe-context";
 import { SubscriptionProvider } from "@/contexts/subscription-context";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { createSQLiteSwipeStorage } from "@/storage/sqlite-swipe-storage";
+
+// Decisions can run into the tens of thousands, which SQLite handles better
+// than a single AsyncStorage document
+const swipeStorage = createSQLiteSwipeStorage();
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -19,14 +25,21 @@ export default function RootLayout() {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
         <SubscriptionProvider>
-          <ImageSwipeProvider>
-            <Stack screenOptions={{ animation: 'none' }}>
-              <Stack.Screen name="index" options={{ headerShown: false }} />
-              <Stack.Screen name="gallery" options={{ headerShown: false }} />
-              <Stack.Screen name="account" options={{ headerShown: false }} />
-            </Stack>
-            <StatusBar style="auto" />
-          </ImageSwipeProvider>
+          <AssetMetadataProvider>
+            <ImageSwipeProvider storage={swipeStorage}>
+              <Stack screenOptions={{ animation: 'none' }}>
+                <Stack.Screen name="index" options={{ headerShown: false }} />
+                <Stack.Screen name="gallery" options={{ headerShown: false }} />
+                <Stack.Screen name="cleanup" options={{ headerShown: false }} />
+                <Stack.Screen name="duplicates" options={{ headerShown: false }} />
+                <Stack.Screen name="trash" options={{ headerShown: false }} />
+                <Stack.Screen name="review-deletion" options={{ headerShown: false }} />
+                <Stack.Screen name="account" options={{ headerShown: false }} />
+                <Stack.Screen name="settings" options={{ headerShown: false }} />
+              </Stack>
+              <StatusBar style="auto" />
+            </ImageSwipeProvider>
+          </AssetMetadataProvider>
         </SubscriptionProvider>
       </ThemeProvider>
     </GestureHandlerRootView>
@@ -3,11 +3,13 @@ import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import { useSubscription } from "@/contexts/subscription-context";
 import { FontAwesome5 } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
 import { ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
 
 const BOTTOM_NAV_HEIGHT = 77; // Height of bottom navigation bar
 
 export default function AccountScreen() {
+  const router = useRouter();
   const { presentPaywall } = useSubscription();
 
   const handleSubscriptionsPress = async () => {
@@ -21,13 +23,13 @@ export default function AccountScreen() {
       icon: "crown",
       onPress: handleSubscriptionsPress,
     },
+    {
+      id: "settings",
+      title: "Settings",
+      icon: "cog",
+      onPress: () => router.push("/settings"),
+    },
     // Add more menu items here in the future
-    // {
-    //   id: "settings",
-    //   title: "Settings",
-    //   icon: "cog",
-    //   onPress: () => {},
-    // },
   ];
 
   return (
@@ -0,0 +1,177 @@
+import { BottomNavBar } from "@/components/bottom-nav-bar";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useImageSwipe } from "@/contexts/image-swipe-context";
+import { ReviewQueue } from "@/utils/screenshots";
+import { SortOrder } from "@/utils/sort-order";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { Href, useRouter } from "expo-router";
+import { ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+
+const BOTTOM_NAV_HEIGHT = 77; // Height of bottom navigation bar
+
+// Review modes that go after one kind of clutter
+const CLEANUP_TOOLS: {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  href: Href;
+  // Deck queue and order to switch to before opening the tool
+  queue?: ReviewQueue;
+  sortOrder?: SortOrder;
+}[] = [
+  {
+    id: "duplicates",
+    title: "Duplicates",
+    description: "Near-identical shots, keep the best of each",
+    icon: "clone",
+    href: "/duplicates",
+  },
+  {
+    id: "screenshots",
+    title: "Screenshots",
+    description: "Screenshots and screen recordings, oldest clutter first",
+    icon: "mobile-alt",
+    href: "/",
+    queue: "screenshots",
+    sortOrder: "oldest",
+  },
+  {
+    id: "largest",
+    title: "Largest Files",
+    description: "Biggest photos and videos first, to free space fast",
+    icon: "hdd",
+    href: "/",
+    sortOrder: "largest",
+  },
+  {
+    id: "later",
+    title: "Decide Later",
+    description: "Photos you swiped down to come back to",
+    icon: "clock",
+    href: "/",
+    queue: "later",
+  },
+  {
+    id: "trash",
+    title: "Trash",
+    description: "Restore or permanently delete what you've removed",
+    icon: "trash-restore",
+    href: "/trash",
+  },
+];
+
+export default function CleanupScreen() {
+  const router = useRouter();
+  const { setReviewQueue, setSortOrder } = useImageSwipe();
+
+  const openTool = (tool: (typeof CLEANUP_TOOLS)[number]) => {
+    if (tool.queue) {
+      setReviewQueue(tool.queue);
+    }
+    if (tool.sortOrder) {
+      setSortOrder(tool.sortOrder);
+    }
+    router.push(tool.href);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.content}>
+          <ThemedText type="title" style={styles.title}>
+            Clean Up
+          </ThemedText>
+
+          <View style={styles.menuContainer}>
+            {CLEANUP_TOOLS.map((tool) => (
+              <TouchableOpacity
+                key={tool.id}
+                style={styles.menuButton}
+                onPress={() => openTool(tool)}
+              >
+                <View style={styles.menuButtonContent}>
+                  <FontAwesome5
+                    name={tool.icon}
+                    size={24}
+                    color="#0a7ea4"
+                    style={styles.menuIcon}
+                  />
+                  <View style={styles.menuText}>
+                    <ThemedText style={styles.menuButtonText}>
+                      {tool.title}
+                    </ThemedText>
+                    <ThemedText style={styles.menuDescription}>
+                      {tool.description}
+                    </ThemedText>
+                  </View>
+                </View>
+                <FontAwesome5 name="chevron-right" size={16} color="#999" />
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+      <BottomNavBar />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingBottom: BOTTOM_NAV_HEIGHT,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    marginBottom: 32,
+  },
+  menuContainer: {
+    gap: 12,
+  },
+  menuButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+    borderRadius: 12,
+    padding: 20,
+  },
+  menuButtonContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    flex: 1,
+  },
+  menuIcon: {
+    marginRight: 16,
+  },
+  menuText: {
+    flex: 1,
+  },
+  menuButtonText: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  menuDescription: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,297 @@
+import { BottomNavBar } from "@/components/bottom-nav-bar";
+import { PermissionRequired } from "@/components/permission-required";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { ImageAsset, useImageSwipe } from "@/contexts/image-swipe-context";
+import { useDuplicateGroups } from "@/hooks/use-duplicate-groups";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { Image } from "expo-image";
+import { useRouter } from "expo-router";
+import { useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const BOTTOM_NAV_HEIGHT = 77; // Height of bottom navigation bar
+const THUMBNAIL_SIZE = 110;
+
+// Highest resolution wins, the earlier image on a tie
+const pickBestShot = (group: ImageAsset[]) =>
+  group.reduce((best, img) =>
+    img.width * img.height > best.width * best.height ? img : best
+  );
+
+export default function DuplicatesScreen() {
+  const router = useRouter();
+  const {
+    images,
+    hasMoreImages,
+    loadingMoreImages,
+    loadMoreImages,
+    permissionGranted,
+    decisions,
+    markedForDeletion,
+    markedForKeep,
+    recordDecisions,
+  } = useImageSwipe();
+  const { groups, progress, scanning } = useDuplicateGroups(images);
+  // Best shot chosen by the user, keyed by the group's first image
+  const [chosenBest, setChosenBest] = useState<Record<string, string>>({});
+
+  const bestOf = (group: ImageAsset[]) =>
+    group.find((img) => img.id === chosenBest[group[0].id]) ??
+    pickBestShot(group);
+
+  // Photos the user already decided on are left as they are
+  const toMarkIn = (group: ImageAsset[], best: ImageAsset) =>
+    group.filter((img) => img.id !== best.id && !decisions.has(img.id));
+
+  // One undoable step, like keeping the best shot of a series
+  const handleKeepBest = (group: ImageAsset[]) => {
+    const best = bestOf(group);
+    recordDecisions(best.id, [
+      { imageId: best.id, decision: "keep" },
+      ...toMarkIn(group, best).map((img) => ({
+        imageId: img.id,
+        decision: "delete" as const,
+      })),
+    ]);
+  };
+
+  const renderGroup = ({ item: group }: { item: ImageAsset[] }) => {
+    const best = bestOf(group);
+    const toMark = toMarkIn(group, best);
+    const resolved = markedForKeep.has(best.id) && toMark.length === 0;
+
+    return (
+      <View style={styles.group}>
+        <View style={styles.groupHeader}>
+          <ThemedText style={styles.groupTitle}>
+            {group.length} similar photos
+          </ThemedText>
+          {resolved && (
+            <FontAwesome5 name="check-circle" size={16} color="#4CAF50" />
+          )}
+        </View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {group.map((img) => {
+            const isBest = img.id === best.id;
+            return (
+              <TouchableOpacity
+                key={img.id}
+                style={[styles.thumbnail, isBest && styles.bestThumbnail]}
+                onPress={() =>
+                  setChosenBest((prev) => ({ ...prev, [group[0].id]: img.id }))
+                }
+              >
+                <Image
+                  source={{ uri: img.uri }}
+                  style={styles.thumbnailImage}
+                  contentFit="cover"
+                />
+                {isBest && (
+                  <View style={styles.bestLabel}>
+                    <ThemedText style={styles.bestLabelText}>Best</ThemedText>
+                  </View>
+                )}
+                {!isBest && markedForDeletion.has(img.id) && (
+                  <View style={styles.deletionOverlay} />
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+        <TouchableOpacity
+          style={styles.keepBestButton}
+          onPress={() => handleKeepBest(group)}
+        >
+          <ThemedText style={styles.keepBestText}>
+            Keep best, mark {toMark.length} for deletion
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  if (!permissionGranted) {
+    return (
+      <ThemedView style={styles.centered}>
+        <PermissionRequired />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <FontAwesome5 name="chevron-left" size={20} color="#0a7ea4" />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>
+          Duplicates
+        </ThemedText>
+      </View>
+      {scanning && (
+        <View style={styles.scanRow}>
+          <ActivityIndicator size="small" />
+          <ThemedText style={styles.note}>
+            Scanning {progress.done.toLocaleString()} of{" "}
+            {progress.total.toLocaleString()} photos...
+          </ThemedText>
+        </View>
+      )}
+      <FlatList
+        data={groups}
+        renderItem={renderGroup}
+        keyExtractor={(group) => group[0].id}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          scanning ? null : (
+            <ThemedText style={styles.emptyText}>
+              No similar photos found among {progress.total.toLocaleString()}{" "}
+              photos.
+            </ThemedText>
+          )
+        }
+        ListFooterComponent={
+          hasMoreImages ? (
+            <TouchableOpacity
+              style={styles.loadMoreButton}
+              onPress={loadMoreImages}
+              disabled={loadingMoreImages}
+            >
+              {loadingMoreImages ? (
+                <ActivityIndicator size="small" />
+              ) : (
+                <ThemedText style={styles.loadMoreText}>
+                  Scan more photos
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          ) : null
+        }
+      />
+      <BottomNavBar />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingBottom: BOTTOM_NAV_HEIGHT,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingBottom: BOTTOM_NAV_HEIGHT,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+  },
+  scanRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  note: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    gap: 24,
+  },
+  emptyText: {
+    textAlign: "center",
+    opacity: 0.7,
+    marginTop: 40,
+  },
+  group: {
+    gap: 10,
+  },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  groupTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  thumbnail: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    marginRight: 8,
+    borderRadius: 8,
+    borderWidth: 3,
+    borderColor: "transparent",
+    overflow: "hidden",
+  },
+  bestThumbnail: {
+    borderColor: "#4CAF50",
+  },
+  thumbnailImage: {
+    width: "100%",
+    height: "100%",
+  },
+  bestLabel: {
+    position: "absolute",
+    bottom: 4,
+    left: 4,
+    backgroundColor: "#4CAF50",
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+  },
+  bestLabelText: {
+    color: "#fff",
+    fontSize: 11,
+    fontWeight: "700",
+    lineHeight: 16,
+  },
+  deletionOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(255, 68, 68, 0.4)",
+  },
+  keepBestButton: {
+    alignSelf: "flex-start",
+    backgroundColor: "#ff4444",
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  keepBestText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  loadMoreButton: {
+    alignItems: "center",
+    paddingVertical: 16,
+  },
+  loadMoreText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#2196F3",
+  },
+});
@@ -1,7 +1,14 @@
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { AlbumPicker } from "@/components/album-picker";
 import { BottomNavBar } from "@/components/bottom-nav-bar";
+import { LimitedAccessBanner } from "@/components/limited-access-banner";
+import { PermissionRequired } from "@/components/permission-required";
+import { ScopePicker } from "@/components/scope-picker";
+import { SortPicker } from "@/components/sort-picker";
 import { ImageAsset, useImageSwipe } from "@/contexts/image-swipe-context";
+import { formatDuration } from "@/utils/format";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
 import { Image } from "expo-image";
 import { useRouter } from "expo-router";
 import React, { useCallback } from "react";
@@ -44,6 +51,14 @@ const GalleryItem = React.memo(
           style={styles.image}
           contentFit="cover"
         />
+        {item.mediaType === "video" && (
+          <View style={styles.videoBadge}>
+            <FontAwesome5 name="play" size={8} color="#fff" />
+            <ThemedText style={styles.videoBadgeText}>
+              {formatDuration(item.duration)}
+            </ThemedText>
+          </View>
+        )}
         {(isMarkedForDeletion || isMarkedForKeep) && (
           <View
             style={[
@@ -66,8 +81,15 @@ export default function GalleryScreen() {
     markedForKeep,
     images,
     imagesLoading,
+    totalCount,
+    hasMoreImages,
+    loadingMoreImages,
+    loadMoreImages,
     permissionGranted,
+    mediaFilter,
+    sortProgress,
   } = useImageSwipe();
+  const itemLabel = mediaFilter === "all" ? "items" : mediaFilter;
 
   const handleImagePress = useCallback(
     (imageId: string) => {
@@ -102,7 +124,9 @@ export default function GalleryScreen() {
       <ThemedView style={styles.container}>
         <ActivityIndicator size="large" />
         <ThemedText style={styles.loadingText}>
-          Loading your photos...
+          {sortProgress
+            ? `Measuring file sizes... ${sortProgress.done.toLocaleString()} of ${sortProgress.total.toLocaleString()}`
+            : "Loading your photos..."}
         </ThemedText>
       </ThemedView>
     );
@@ -111,12 +135,7 @@ export default function GalleryScreen() {
   if (!permissionGranted) {
     return (
       <ThemedView style={styles.container}>
-        <ThemedText type="title" style={styles.title}>
-          Permission Required
-        </ThemedText>
-        <ThemedText style={styles.subtitle}>
-          Please grant photo library access to use this app.
-        </ThemedText>
+        <PermissionRequired />
       </ThemedView>
     );
   }
@@ -124,11 +143,16 @@ export default function GalleryScreen() {
   if (images.length === 0) {
     return (
       <ThemedView style={styles.container}>
+        <View style={styles.filterRow}>
+          <AlbumPicker />
+          <ScopePicker />
+          <SortPicker />
+        </View>
         <ThemedText type="title" style={styles.title}>
           No Images Found
         </ThemedText>
         <ThemedText style={styles.subtitle}>
-          No photos were found in your library.
+          No {itemLabel} were found for this album and period.
         </ThemedText>
       </ThemedView>
     );
@@ -143,7 +167,18 @@ export default function GalleryScreen() {
         <ThemedText style={styles.headerSubtitle}>
           Tap a photo to start swiping from there
         </ThemedText>
+        <View style={styles.filterRow}>
+          <AlbumPicker />
+          <ScopePicker />
+          <SortPicker />
+        </View>
+        <ThemedText style={styles.headerSubtitle}>
+          {hasMoreImages
+            ? `Showing ${images.length.toLocaleString()} of ${totalCount.toLocaleString()} ${itemLabel}`
+            : `${totalCount.toLocaleString()} ${itemLabel}`}
+        </ThemedText>
       </View>
+      <LimitedAccessBanner />
       <FlatList
         data={images}
         renderItem={renderItem}
@@ -156,6 +191,13 @@ export default function GalleryScreen() {
         maxToRenderPerBatch={21}
         windowSize={10}
         initialNumToRender={21}
+        onEndReached={loadMoreImages}
+        onEndReachedThreshold={2}
+        ListFooterComponent={
+          loadingMoreImages ? (
+            <ActivityIndicator style={styles.footerLoader} />
+          ) : null
+        }
       />
       <BottomNavBar />
     </ThemedView>
@@ -183,6 +225,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.7,
   },
+  filterRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginVertical: 8,
+  },
+
   listContent: {
     padding: GAP,
   },
@@ -201,6 +249,24 @@ const styles = StyleSheet.create({
     width: "100%",
     height: "100%",
   },
+  videoBadge: {
+    position: "absolute",
+    bottom: 4,
+    right: 4,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    paddingHorizontal: 6,
+    borderRadius: 8,
+    zIndex: 1,
+  },
+  videoBadgeText: {
+    color: "#fff",
+    fontSize: 11,
+    lineHeight: 16,
+    fontWeight: "600",
+  },
   overlay: {
     position: "absolute",
     top: 0,
@@ -215,6 +281,9 @@ const styles = StyleSheet.create({
   keepOverlay: {
     backgroundColor: "rgba(76, 175, 80, 0.4)", // Opaque green (Material Design green)
   },
+  footerLoader: {
+    paddingVertical: 16,
+  },
   loadingText: {
     marginTop: 16,
     fontSize: 16,
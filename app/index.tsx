@@ -1,257 +1,134 @@
+import { AlbumPicker } from "@/components/album-picker";
+import { AssetInfoOverlay } from "@/components/asset-info-overlay";
 import { BottomNavBar } from "@/components/bottom-nav-bar";
+import { HistorySheet } from "@/components/history-sheet";
+import { LimitedAccessBanner } from "@/components/limited-access-banner";
+import { PermissionRequired } from "@/components/permission-required";
+import { ScopePicker } from "@/components/scope-picker";
+import { ScreenshotQueueBar } from "@/components/screenshot-queue-bar";
+import { SortPicker } from "@/components/sort-picker";
 import { SwipeableCard } from "@/components/swipeable-card";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { useAssetMetadataContext } from "@/contexts/asset-metadata-context";
 import { useImageSwipe } from "@/contexts/image-swipe-context";
+import { useSwipeSession } from "@/hooks/use-swipe-session";
+import { useTotalFileSize } from "@/hooks/use-total-file-size";
+import { formatBytes } from "@/utils/format";
+import { SWIPE_ACTION_INFO, SwipeDirection } from "@/utils/swipe-actions";
 import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
-import * as MediaLibrary from "expo-media-library";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
   Dimensions,
+  StyleProp,
   StyleSheet,
   TouchableOpacity,
   View,
+  ViewStyle,
 } from "react-native";
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
 
 export default function HomeScreen() {
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [history, setHistory] = useState<
-    Array<{ index: number; wasLeftSwipe: boolean }>
-  >([]);
-  const [undoAnimationTrigger, setUndoAnimationTrigger] = useState(0);
-  const [undoAnimationInfo, setUndoAnimationInfo] = useState<{
-    imageIndex: number;
-    wasLeftSwipe: boolean;
-  } | null>(null);
-  const [programmaticSwipeTrigger, setProgrammaticSwipeTrigger] = useState(0);
-  const [programmaticSwipeDirection, setProgrammaticSwipeDirection] = useState<
-    "left" | "right" | null
-  >(null);
-  const [programmaticSwipeImageId, setProgrammaticSwipeImageId] = useState<
-    string | null
-  >(null);
-  const [isDeleting, setIsDeleting] = useState(false);
-  const initialPositionLoadedRef = useRef(false);
-  const isUndoingRef = useRef(false);
-  const targetImageIdAfterDeletionRef = useRef<string | null>(null);
-  const imagesHash = useRef<string>("");
+  const [infoVisible, setInfoVisible] = useState(false);
+  const [historyVisible, setHistoryVisible] = useState(false);
   const router = useRouter();
-  const params = useLocalSearchParams<{ startImageId?: string }>();
+  const params = useLocalSearchParams<{
+    startImageId?: string;
+    // Set by the deletion review screen once the user confirms
+    commit?: string;
+  }>();
   const {
     markedForDeletion,
-    markForDeletion,
-    markForKeep, 
-    unmarkForDeletion,
-    unmarkForKeep,
-    clearAll,
-    clearDeletion,
+    markedForLater,
+    favorites,
+    history,
+    redoHistory,
     images,
     imagesLoading,
+    totalCount,
+    hasMoreImages,
     permissionGranted,
-    refreshImages,
-    removeFromPersistedKeep,
-    removeFromPersistedDeletion,
-    saveLastViewedImage,
-    loadLastViewedImage,
+    mediaFilter,
+    sortProgress,
+    unreviewedOnly,
+    setUnreviewedOnly,
+    reviewQueue,
+    setReviewQueue,
+    trashRetentionDays,
+    swipeActionMap,
   } = useImageSwipe();
-
-  // Load initial position only once when images are first loaded
-  useEffect(() => {
-    if (
-      imagesLoading ||
-      initialPositionLoadedRef.current ||
-      images.length === 0 ||
-      isUndoingRef.current
-    ) {
-      return;
-    }
-
-    // Set starting index if provided from gallery (by image ID)
-    if (params.startImageId) {
-      const foundIndex = images.findIndex(
-        (img) => img.id === params.startImageId
-      );
-      if (foundIndex !== -1) {
-        setCurrentIndex(foundIndex);
+  const {
+    phase,
+    deck,
+    currentIndex,
+    currentImage,
+    seriesById,
+    topCardRef,
+    decide,
+    requestSwipe,
+    keepSeriesShot,
+    undo,
+    jumpBack,
+    redo,
+    commitDeletion,
+  } = useSwipeSession({
+    startImageId: params.startImageId,
+    onDeckFinished: () =>
+      Alert.alert("Done!", "All images have been reviewed."),
+    onActionFailed: (action, error) => {
+      if (action === "album" && error === undefined) {
+        Alert.alert(
+          "Choose an Album",
+          "Pick the album to add photos to in Settings first."
+        );
+      } else if (action === "album") {
+        Alert.alert("Error", "Failed to add the photo to the album.");
+      } else if (action === "share") {
+        Alert.alert("Error", "Failed to share the photo.");
       }
-      initialPositionLoadedRef.current = true;
-      return;
-    }
+    },
+  });
 
-    // Load last viewed image if no startImageId is provided (only once)
-    loadLastViewedImage().then((lastImageId) => {
-      // Double-check flag in case component unmounted or state changed
-      if (
-        lastImageId &&
-        images.length > 0 &&
-        !initialPositionLoadedRef.current &&
-        !isUndoingRef.current
-      ) {
-        const foundIndex = images.findIndex((img) => img.id === lastImageId);
-        if (foundIndex !== -1) {
-          setCurrentIndex(foundIndex);
-        }
-      }
-      initialPositionLoadedRef.current = true;
-    });
-  }, [imagesLoading, images.length, params.startImageId, loadLastViewedImage]);
+  const { metadata, requestMetadata } = useAssetMetadataContext();
+  // Space the trash button will free
+  const markedSize = useTotalFileSize(markedForDeletion);
 
-  // Restore position after deletion completes
+  // Measure the cards on screen so their size can be shown
   useEffect(() => {
-    if (
-      isDeleting &&
-      !imagesLoading &&
-      images.length > 0 &&
-      imagesHash.current !== JSON.stringify(images)
-    ) {
-      if (targetImageIdAfterDeletionRef.current) {
-        const targetImageId = targetImageIdAfterDeletionRef.current;
-        const newIndex = images.findIndex((img) => img.id === targetImageId);
-
-        if (newIndex !== -1) {
-          setCurrentIndex(newIndex);
-          saveLastViewedImage(targetImageId);
-        } else {
-          // Target image not found, use first available image
-          setCurrentIndex(0);
-          if (images[0]) {
-            saveLastViewedImage(images[0].id);
+    requestMetadata(
+      deck.slice(currentIndex, currentIndex + 3).map((img) => img.id)
+    );
+  }, [deck, currentIndex, requestMetadata]);
+
+  // Button for the action bound to direction, in that action's icon and color
+  const renderActionButton = (
+    direction: SwipeDirection,
+    style: StyleProp<ViewStyle>,
+    iconSize: number
+  ) => {
+    const action = swipeActionMap[direction];
+    const { icon, color } = SWIPE_ACTION_INFO[action];
+    return (
+      <TouchableOpacity
+        style={[style, { backgroundColor: color }]}
+        onPress={() => requestSwipe(direction)}
+      >
+        <FontAwesome5
+          name={icon}
+          size={iconSize}
+          color="#fff"
+          solid={
+            action === "favorite" &&
+            currentImage !== undefined &&
+            favorites.has(currentImage.id)
           }
-        }
-      } else {
-        // No target image (all were deleted), stay at index 0
-        setCurrentIndex(0);
-      }
-
-      // Update history indices to match new image positions
-      setHistory((prevHistory) =>
-        prevHistory
-          .map((entry) => {
-            // Find the image that was at this entry's index before deletion
-            // We need to track this differently - for now, just keep entries that might still be valid
-            // This is a simplified approach - in a more complex scenario, we'd need to track image IDs in history
-            return entry;
-          })
-          .filter((entry) => entry.index < images.length)
-      );
-
-      // Reset deletion state
-      setIsDeleting(false);
-      targetImageIdAfterDeletionRef.current = null;
-    } else if (isDeleting && !imagesLoading && images.length === 0) {
-      // All images deleted
-      setCurrentIndex(0);
-      setIsDeleting(false);
-      targetImageIdAfterDeletionRef.current = null;
-    }
-  }, [isDeleting, imagesLoading, images, saveLastViewedImage]);
-
-  // Save current image ID whenever index changes (but only after initial load and not during undo)
-  useEffect(() => {
-    if (
-      !initialPositionLoadedRef.current ||
-      images.length === 0 ||
-      currentIndex >= images.length ||
-      isUndoingRef.current ||
-      isDeleting
-    ) {
-      return;
-    }
-    const currentImage = images[currentIndex];
-    if (currentImage) {
-      saveLastViewedImage(currentImage.id);
-    }
-  }, [currentIndex, images, saveLastViewedImage, isDeleting]);
-
-  const handleSwipeLeft = () => {
-    if (isUndoingRef.current) return;
-    if (currentIndex >= images.length) return;
-
-    const imageToMark = images[currentIndex];
-    const currentIdx = currentIndex;
-
-    // Save current index to history for undo
-    setHistory((prev) => [...prev, { index: currentIdx, wasLeftSwipe: true }]);
-
-    // Mark image for deletion instead of deleting immediately
-    markForDeletion(imageToMark.id);
-
-    // Move to next image
-    setCurrentIndex((prev) => {
-      const next = prev + 1;
-      if (next >= images.length) {
-        Alert.alert("Done!", "All images have been reviewed.");
-        return prev;
-      }
-      return next;
-    });
-  };
-
-  const handleSwipeRight = () => {
-    if (isUndoingRef.current) return;
-    if (currentIndex >= images.length) return;
-
-    const imageToMark = images[currentIndex];
-    const currentIdx = currentIndex;
-
-    // Save current index to history for undo
-    setHistory((prev) => [...prev, { index: currentIdx, wasLeftSwipe: false }]);
-
-    // Mark image for keep
-    markForKeep(imageToMark.id);
-
-    // Move to next image
-    setCurrentIndex((prev) => {
-      const next = prev + 1;
-      if (next >= images.length) {
-        Alert.alert("Done!", "All images have been reviewed.");
-        return prev;
-      }
-      return next;
-    });
-  };
-
-  const handleButtonSwipeLeft = () => {
-    if (isUndoingRef.current) return;
-    if (currentIndex >= images.length) return;
-    
-    const currentImage = images[currentIndex];
-    if (!currentImage) return;
-    
-    // Trigger the animation for this specific image
-    setProgrammaticSwipeImageId(currentImage.id);
-    setProgrammaticSwipeDirection("left");
-    setProgrammaticSwipeTrigger((prev) => prev + 1);
-    
-    // Reset after animation completes
-    setTimeout(() => {
-      setProgrammaticSwipeDirection(null);
-      setProgrammaticSwipeImageId(null);
-    }, 500);
-  };
-
-  const handleButtonSwipeRight = () => {
-    if (isUndoingRef.current) return;
-    if (currentIndex >= images.length) return;
-    
-    const currentImage = images[currentIndex];
-    if (!currentImage) return;
-    
-    // Trigger the animation for this specific image
-    setProgrammaticSwipeImageId(currentImage.id);
-    setProgrammaticSwipeDirection("right");
-    setProgrammaticSwipeTrigger((prev) => prev + 1);
-    
-    // Reset after animation completes
-    setTimeout(() => {
-      setProgrammaticSwipeDirection(null);
-      setProgrammaticSwipeImageId(null);
-    }, 500);
+        />
+      </TouchableOpacity>
+    );
   };
 
   const handleUndo = () => {
@@ -259,166 +136,64 @@ export default function HomeScreen() {
       Alert.alert("Nothing to undo", "You haven't swiped any images yet.");
       return;
     }
-
-    // Prevent multiple undos from running simultaneously
-    if (isUndoingRef.current) {
-      return;
-    }
-
-    // Get the last action from history
-    const lastAction = history[history.length - 1];
-    const previousIndex = lastAction.index;
-
-    // Validate the index
-    if (previousIndex >= images.length || previousIndex < 0) {
-      // Index no longer valid, just remove from history
-      setHistory((prev) => prev.slice(0, -1));
-      return;
-    }
-
-    // Get the image to unmark
-    const imageToUnmark = images[previousIndex];
-    
-    // Unmark the image based on the swipe direction
-    if (lastAction.wasLeftSwipe) {
-      // Left swipe = marked for deletion, so unmark from deletion
-      unmarkForDeletion(imageToUnmark.id);
-    } else {
-      // Right swipe = marked for keep, so unmark from keep
-      unmarkForKeep(imageToUnmark.id);
-    }
-
-    // Set flag to prevent save effect and other operations from running during undo
-    isUndoingRef.current = true;
-
-    // Store undo animation info before changing index
-    setUndoAnimationInfo({
-      imageIndex: previousIndex,
-      wasLeftSwipe: lastAction.wasLeftSwipe,
-    });
-
-    // Remove the last action from history first (before changing index)
-    setHistory((prev) => prev.slice(0, -1));
-
-    // Go back to previous index (but don't unmark the image)
-    // Use a function to ensure we're using the correct value
-    setCurrentIndex(previousIndex);
-
-    // Trigger animation after React has rendered the new card
-    // Use a small timeout to ensure the card is in the DOM
-    setTimeout(() => {
-      setUndoAnimationTrigger((prev) => prev + 1);
-    }, 50);
-
-    // Clear undo animation info and reset flag after animation completes
-    setTimeout(() => {
-      setUndoAnimationInfo(null);
-      // Save the position after undo is complete
-      if (images[previousIndex]) {
-        saveLastViewedImage(images[previousIndex].id);
-      }
-      // Reset flag after everything is done
-      setTimeout(() => {
-        isUndoingRef.current = false;
-      }, 100);
-    }, 400);
+    undo();
   };
 
   const handleCommitDeletion = async () => {
-    imagesHash.current = JSON.stringify(images);
     if (markedForDeletion.size === 0) {
       Alert.alert("No Images", "No images are marked for deletion.");
       return;
     }
 
-    const imageIdsToDelete = Array.from(markedForDeletion);
-
-    // Save the current image ID to restore position after deletion
-    const currentImageId = images[currentIndex]?.id;
-    const markedSet = new Set(markedForDeletion);
-    const oldImages = [...images]; // Keep a copy of current images for calculations
-
-    // Check if current image is being deleted
-    const isCurrentImageDeleted =
-      currentImageId && markedSet.has(currentImageId);
-
     try {
-      // Set deletion flag and target image ID before starting deletion
-      setIsDeleting(true);
-
-      // If current image is not being deleted, we'll try to find it after refresh
-      // If it is being deleted, we'll find the next available image
-      if (!isCurrentImageDeleted && currentImageId) {
-        targetImageIdAfterDeletionRef.current = currentImageId;
-      } else {
-        // Current image is being deleted, find the next non-deleted image
-        let nextIndex = currentIndex + 1;
-        while (
-          nextIndex < oldImages.length &&
-          markedSet.has(oldImages[nextIndex].id)
-        ) {
-          nextIndex++;
-        }
-        if (nextIndex < oldImages.length) {
-          targetImageIdAfterDeletionRef.current = oldImages[nextIndex].id;
-        } else {
-          // All images after current are deleted, find previous non-deleted image
-          let prevIndex = currentIndex - 1;
-          while (prevIndex >= 0 && markedSet.has(oldImages[prevIndex].id)) {
-            prevIndex--;
-          }
-          if (prevIndex >= 0) {
-            targetImageIdAfterDeletionRef.current = oldImages[prevIndex].id;
-          } else {
-            // All images are being deleted
-            targetImageIdAfterDeletionRef.current = null;
-          }
-        }
+      const result = await commitDeletion();
+      if (!result) {
+        Alert.alert(
+          "Nothing Moved",
+          "The images couldn't be moved to the trash right now. Please try again."
+        );
+        return;
       }
-
-      // Delete all marked assets from media library
-      await MediaLibrary.deleteAssetsAsync(imageIdsToDelete);
-
-      // Remove deleted images from persisted storage (both keep and deletion)
-      await removeFromPersistedKeep(imageIdsToDelete);
-      await removeFromPersistedDeletion(imageIdsToDelete);
-
-      // Refresh images from context to get updated list
-      await refreshImages();
-
-      // Clear the marked set and reset history
-      clearDeletion();
-      
-      // Reset undo history when deleting
-      setHistory([]);
-
-      // Check if all images were deleted
-      const remainingCount = oldImages.filter(
-        (img) => !markedSet.has(img.id)
-      ).length;
-      if (remainingCount === 0) {
-        Alert.alert("Done!", "All images have been deleted.");
-        setIsDeleting(false);
-        targetImageIdAfterDeletionRef.current = null;
-        setCurrentIndex(0);
+      const sizeText = `${result.allMeasured ? "" : "at least "}${formatBytes(result.bytes)}`;
+      if (result.deckEmptied) {
+        Alert.alert(
+          "Done!",
+          `All images (${sizeText}) have been moved to the trash. They'll be deleted for good after ${trashRetentionDays} days, or when you empty the trash.`
+        );
       } else {
-        Alert.alert("Success", `Deleted ${imageIdsToDelete.length} image(s).`);
-        // Position will be restored by the useEffect when images finish loading
+        Alert.alert(
+          "Moved to Trash",
+          `Moved ${result.count} image(s) (${sizeText}) to the trash. They'll be deleted for good after ${trashRetentionDays} days, or when you empty the trash.`
+        );
       }
     } catch (error) {
-      console.error("Error deleting images:", error);
-      Alert.alert("Error", "Failed to delete some images.");
-      setIsDeleting(false);
-      targetImageIdAfterDeletionRef.current = null;
+      console.error("Error moving images to the trash:", error);
+      Alert.alert(
+        "Error",
+        "Failed to move the images to the trash. Nothing was removed."
+      );
     }
   };
 
+  // Run the delete flow once the review screen confirms, always with the
+  // latest state. Waits until the deck is idle, e.g. done finding its place.
+  const commitDeletionRef = useRef(handleCommitDeletion);
+  commitDeletionRef.current = handleCommitDeletion;
+  useEffect(() => {
+    if (params.commit === "deletion" && phase === "idle") {
+      router.setParams({ commit: undefined });
+      commitDeletionRef.current();
+    }
+  }, [params.commit, phase, router]);
+
   if (imagesLoading) {
     return (
       <ThemedView style={styles.container}>
         <ActivityIndicator size="large" />
         <ThemedText style={styles.loadingText}>
-          Loading your photos...
+          {sortProgress
+            ? `Measuring file sizes... ${sortProgress.done.toLocaleString()} of ${sortProgress.total.toLocaleString()}`
+            : "Loading your photos..."}
         </ThemedText>
       </ThemedView>
     );
@@ -427,12 +202,7 @@ export default function HomeScreen() {
   if (!permissionGranted) {
     return (
       <ThemedView style={styles.container}>
-        <ThemedText type="title" style={styles.title}>
-          Permission Required
-        </ThemedText>
-        <ThemedText style={styles.subtitle}>
-          Please grant photo library access to use this app.
-        </ThemedText>
+        <PermissionRequired />
       </ThemedView>
     );
   }
@@ -440,57 +210,197 @@ export default function HomeScreen() {
   if (images.length === 0) {
     return (
       <ThemedView style={styles.container}>
+        <View style={styles.filterRow}>
+          <AlbumPicker />
+          <ScopePicker />
+          <SortPicker />
+        </View>
         <ThemedText type="title" style={styles.title}>
           No Images Found
         </ThemedText>
-        <ThemedText style={styles.subtitle}>
-          No photos were found in your library.
-        </ThemedText>
+        {reviewQueue === "screenshots" ? (
+          <>
+            <ScreenshotQueueBar />
+            <ThemedText style={styles.subtitle}>
+              No screenshots were found for this album, period and age.
+            </ThemedText>
+            <TouchableOpacity onPress={() => setReviewQueue("library")}>
+              <ThemedText style={styles.showAllText}>
+                Review whole library
+              </ThemedText>
+            </TouchableOpacity>
+          </>
+        ) : reviewQueue === "later" ? (
+          <>
+            <ThemedText style={styles.subtitle}>
+              Nothing in this album and period is set aside for later. Swipe
+              down on a photo to decide on it later.
+            </ThemedText>
+            <TouchableOpacity onPress={() => setReviewQueue("library")}>
+              <ThemedText style={styles.showAllText}>
+                Review whole library
+              </ThemedText>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <ThemedText style={styles.subtitle}>
+            No {mediaFilter === "videos" ? "videos" : "photos"} were found for
+            this album and period.
+          </ThemedText>
+        )}
       </ThemedView>
     );
   }
 
-  const visibleCards = images.slice(currentIndex, currentIndex + 3);
+  const visibleCards = deck.slice(currentIndex, currentIndex + 3);
 
   return (
     <ThemedView style={styles.container}>
-      <View style={styles.cardsContainer}>
-        {visibleCards.map((image, index) => {
-          // Check if this is the card that should animate back (the one we're undoing to)
-          // Only animate the top card (index 0) to prevent multiple animations
-          const shouldAnimateUndo =
-            undoAnimationInfo &&
-            index === 0 &&
-            currentIndex === undoAnimationInfo.imageIndex;
-
-          return (
-            <SwipeableCard
-              key={image.id}
-              imageUri={image.uri}
-              imageId={image.id}
-              onSwipeLeft={handleSwipeLeft}
-              onSwipeRight={handleSwipeRight}
-              index={index}
-              undoAnimation={
-                shouldAnimateUndo
-                  ? {
-                      trigger: undoAnimationTrigger,
-                      wasLeftSwipe: undoAnimationInfo.wasLeftSwipe,
-                    }
-                  : null
-              }
-              programmaticSwipe={
-                programmaticSwipeDirection && programmaticSwipeImageId === image.id
-                  ? {
-                      trigger: programmaticSwipeTrigger,
-                      isLeft: programmaticSwipeDirection === "left",
-                      imageId: programmaticSwipeImageId,
-                    }
-                  : null
-              }
+      <View style={styles.filterRow}>
+        <AlbumPicker />
+        <ScopePicker />
+        <SortPicker />
+      </View>
+      <LimitedAccessBanner />
+      <View style={styles.infoRow}>
+        <ThemedText style={styles.infoText}>
+          {unreviewedOnly
+            ? `${deck.length.toLocaleString()}${hasMoreImages ? "+" : ""} to review`
+            : `${Math.min(currentIndex + 1, totalCount).toLocaleString()} / ${totalCount.toLocaleString()}`}
+        </ThemedText>
+        {currentImage && (
+          <TouchableOpacity onPress={() => setInfoVisible(true)}>
+            <FontAwesome5 name="info-circle" size={18} color="#666" />
+          </TouchableOpacity>
+        )}
+        {(history.length > 0 || redoHistory.length > 0) && (
+          <TouchableOpacity onPress={() => setHistoryVisible(true)}>
+            <FontAwesome5 name="history" size={18} color="#666" />
+          </TouchableOpacity>
+        )}
+        {redoHistory.length > 0 && (
+          <TouchableOpacity onPress={redo}>
+            <FontAwesome5 name="redo" size={16} color="#666" />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.modeToggle, unreviewedOnly && styles.modeToggleActive]}
+          onPress={() => setUnreviewedOnly(!unreviewedOnly)}
+        >
+          <FontAwesome5
+            name="filter"
+            size={12}
+            color={unreviewedOnly ? "#fff" : "#666"}
+          />
+          <ThemedText
+            style={[
+              styles.modeToggleText,
+              unreviewedOnly && styles.modeToggleTextActive,
+            ]}
+          >
+            Unreviewed
+          </ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.modeToggle,
+            reviewQueue === "screenshots" && styles.modeToggleActive,
+          ]}
+          onPress={() =>
+            setReviewQueue(
+              reviewQueue === "screenshots" ? "library" : "screenshots"
+            )
+          }
+        >
+          <FontAwesome5
+            name="mobile-alt"
+            size={12}
+            color={reviewQueue === "screenshots" ? "#fff" : "#666"}
+          />
+          <ThemedText
+            style={[
+              styles.modeToggleText,
+              reviewQueue === "screenshots" && styles.modeToggleTextActive,
+            ]}
+          >
+            Screenshots
+          </ThemedText>
+        </TouchableOpacity>
+        {(markedForLater.size > 0 || reviewQueue === "later") && (
+          <TouchableOpacity
+            style={[
+              styles.modeToggle,
+              reviewQueue === "later" && styles.modeToggleActive,
+            ]}
+            onPress={() =>
+              setReviewQueue(reviewQueue === "later" ? "library" : "later")
+            }
+          >
+            <FontAwesome5
+              name="clock"
+              size={12}
+              color={reviewQueue === "later" ? "#fff" : "#666"}
             />
-          );
-        })}
+            <ThemedText
+              style={[
+                styles.modeToggleText,
+                reviewQueue === "later" && styles.modeToggleTextActive,
+              ]}
+            >
+              Later ({markedForLater.size.toLocaleString()})
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+      </View>
+      {reviewQueue === "screenshots" && <ScreenshotQueueBar />}
+      <AssetInfoOverlay
+        asset={currentImage}
+        visible={infoVisible}
+        onClose={() => setInfoVisible(false)}
+      />
+      <HistorySheet
+        visible={historyVisible}
+        onClose={() => setHistoryVisible(false)}
+        onJumpBack={jumpBack}
+      />
+      <View style={styles.cardsContainer}>
+        {visibleCards.length === 0 && hasMoreImages && (
+          <ActivityIndicator size="large" />
+        )}
+        {unreviewedOnly && visibleCards.length === 0 && !hasMoreImages && (
+          <View style={styles.caughtUp}>
+            <ThemedText type="subtitle">All Caught Up</ThemedText>
+            <ThemedText style={styles.subtitle}>
+              Everything here has been reviewed or set aside for later.
+            </ThemedText>
+            <TouchableOpacity onPress={() => setUnreviewedOnly(false)}>
+              <ThemedText style={styles.showAllText}>
+                Show everything
+              </ThemedText>
+            </TouchableOpacity>
+          </View>
+        )}
+        {visibleCards.map((image, index) => (
+          <SwipeableCard
+            key={image.id}
+            ref={index === 0 ? topCardRef : undefined}
+            imageUri={image.uri}
+            imageId={image.id}
+            mediaType={image.mediaType}
+            duration={image.duration}
+            series={seriesById.get(image.id)}
+            fileSize={image.fileSize ?? metadata.get(image.id)?.fileSize}
+            favorite={favorites.has(image.id)}
+            actions={swipeActionMap}
+            onSwipe={decide}
+            index={index}
+            swipeEnabled={phase === "idle"}
+          />
+        ))}
+      </View>
+      <View style={styles.directionButtonsContainer}>
+        {renderActionButton("down", styles.smallActionButton, 20)}
+        {renderActionButton("up", styles.smallActionButton, 20)}
       </View>
       <View style={styles.bottomButtonsContainer}>
         <View style={styles.buttonSection}>
@@ -501,27 +411,27 @@ export default function HomeScreen() {
           )}
         </View>
         <View style={styles.buttonSection}>
-          <TouchableOpacity
-            style={styles.rejectButton}
-            onPress={handleButtonSwipeLeft}
-          >
-            <FontAwesome5 name="times" size={40} color="#fff" />
-          </TouchableOpacity>
+          {renderActionButton("left", styles.largeActionButton, 40)}
         </View>
-        <View style={styles.buttonSection} />
         <View style={styles.buttonSection}>
-          <TouchableOpacity
-            style={styles.likeButton}
-            onPress={handleButtonSwipeRight}
-          >
-            <FontAwesome5 name="heart" size={40} color="#fff" />
-          </TouchableOpacity>
+          {currentImage && seriesById.has(currentImage.id) && (
+            <TouchableOpacity
+              style={styles.seriesButton}
+              onPress={keepSeriesShot}
+            >
+              <FontAwesome5 name="layer-group" size={22} color="#fff" />
+              <ThemedText style={styles.seriesButtonText}>Keep 1</ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={styles.buttonSection}>
+          {renderActionButton("right", styles.largeActionButton, 40)}
         </View>
         <View style={styles.buttonSection}>
           {markedForDeletion.size > 0 && (
             <TouchableOpacity
               style={styles.deleteIconButton}
-              onPress={handleCommitDeletion}
+              onPress={() => router.push("/review-deletion")}
             >
               <FontAwesome5 name="trash" size={32} color="#fff" />
               <View style={styles.badge}>
@@ -529,6 +439,10 @@ export default function HomeScreen() {
                   {markedForDeletion.size}
                 </ThemedText>
               </View>
+              <ThemedText style={styles.trashSizeText} numberOfLines={1}>
+                {formatBytes(markedSize.bytes)}
+                {markedSize.complete ? "" : "+"}
+              </ThemedText>
             </TouchableOpacity>
           )}
         </View>
@@ -555,11 +469,51 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     marginBottom: SCREEN_HEIGHT * 0.02 + BOTTOM_NAV_HEIGHT,
   },
+  filterRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 8,
+  },
+  infoRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginBottom: 8,
+  },
   infoText: {
     fontSize: 18,
     fontWeight: "600",
     marginBottom: 8,
   },
+  modeToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+    marginBottom: 8,
+  },
+  modeToggleActive: {
+    backgroundColor: "#2196F3",
+  },
+  modeToggleText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  modeToggleTextActive: {
+    color: "#fff",
+  },
+  caughtUp: {
+    alignItems: "center",
+    gap: 12,
+  },
+  showAllText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#2196F3",
+  },
   instructionText: {
     fontSize: 14,
     opacity: 0.7,
@@ -611,6 +565,14 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "700",
   },
+  trashSizeText: {
+    position: "absolute",
+    bottom: -22,
+    width: 90,
+    textAlign: "center",
+    fontSize: 12,
+    fontWeight: "600",
+  },
   bottomButtonsContainer: {
     position: "absolute",
     bottom: SCREEN_HEIGHT * 0.04 + BOTTOM_NAV_HEIGHT,
@@ -621,6 +583,31 @@ const styles = StyleSheet.create({
     paddingHorizontal: 10,
     zIndex: 1000,
   },
+  // The up and down actions sit above the main row, either side of its middle
+  directionButtonsContainer: {
+    position: "absolute",
+    bottom: SCREEN_HEIGHT * 0.04 + BOTTOM_NAV_HEIGHT + 84,
+    width: SCREEN_WIDTH,
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: SCREEN_WIDTH * 0.3,
+    zIndex: 1000,
+  },
+  smallActionButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
   buttonSection: {
     flex: 1,
     alignItems: "center",
@@ -642,11 +629,11 @@ const styles = StyleSheet.create({
     shadowRadius: 3.84,
     elevation: 5,
   },
-  rejectButton: {
-    width: 70,
-    height: 70,
-    borderRadius: 35,
-    backgroundColor: "#ff4444",
+  seriesButton: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: "#2196F3",
     alignItems: "center",
     justifyContent: "center",
     shadowColor: "#000",
@@ -654,15 +641,20 @@ const styles = StyleSheet.create({
       width: 0,
       height: 2,
     },
-    shadowOpacity: 0.3,
-    shadowRadius: 4,
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
     elevation: 5,
   },
-  likeButton: {
+  seriesButtonText: {
+    color: "#fff",
+    fontSize: 10,
+    fontWeight: "700",
+    lineHeight: 14,
+  },
+  largeActionButton: {
     width: 70,
     height: 70,
     borderRadius: 35,
-    backgroundColor: "#4CAF50",
     alignItems: "center",
     justifyContent: "center",
     shadowColor: "#000",
@@ -0,0 +1,311 @@
+import { BottomNavBar } from "@/components/bottom-nav-bar";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useImageSwipe } from "@/contexts/image-swipe-context";
+import { useAssetLookup } from "@/hooks/use-asset-lookup";
+import { useTotalFileSize } from "@/hooks/use-total-file-size";
+import { formatBytes } from "@/utils/format";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { Image } from "expo-image";
+import { useRouter } from "expo-router";
+import { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Dimensions,
+  FlatList,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const { width: SCREEN_WIDTH } = Dimensions.get("window");
+const NUM_COLUMNS = 3;
+const GAP = 2;
+const ITEM_SIZE = (SCREEN_WIDTH - GAP * (NUM_COLUMNS + 1)) / NUM_COLUMNS;
+const BOTTOM_NAV_HEIGHT = 77; // Height of bottom navigation bar
+
+type ReviewItem = {
+  id: string;
+  uri: string;
+};
+
+export default function ReviewDeletionScreen() {
+  const router = useRouter();
+  const { images, markedForDeletion, markForDeletion, unmarkForDeletion } =
+    useImageSwipe();
+  // Photos marked when the screen opened, so deselected ones stay visible and
+  // can be selected again
+  const [reviewIds] = useState(() => {
+    const deckOrder = images
+      .filter((img) => markedForDeletion.has(img.id))
+      .map((img) => img.id);
+    const inDeck = new Set(deckOrder);
+    return [
+      ...deckOrder,
+      ...[...markedForDeletion].filter((id) => !inDeck.has(id)),
+    ];
+  });
+  const [fullScreenId, setFullScreenId] = useState<string | null>(null);
+
+  // Marked photos outside the loaded deck are looked up in the library
+  const loadedById = useMemo(
+    () => new Map(images.map((img) => [img.id, img])),
+    [images]
+  );
+  const notLoadedIds = useMemo(
+    () => reviewIds.filter((id) => !loadedById.has(id)),
+    [reviewIds, loadedById]
+  );
+  const { infos, loading } = useAssetLookup(notLoadedIds);
+  const items = useMemo(() => {
+    const found: ReviewItem[] = [];
+    reviewIds.forEach((id) => {
+      const uri = loadedById.get(id)?.uri ?? infos.get(id)?.uri;
+      if (uri) {
+        found.push({ id, uri });
+      }
+    });
+    return found;
+  }, [reviewIds, loadedById, infos]);
+
+  const totalSize = useTotalFileSize(markedForDeletion);
+  const fullScreenItem = items.find((item) => item.id === fullScreenId);
+
+  const toggleMarked = (id: string) => {
+    if (markedForDeletion.has(id)) {
+      unmarkForDeletion(id);
+    } else {
+      markForDeletion(id);
+    }
+  };
+
+  // The deck runs its usual delete flow and keeps its place
+  const handleConfirm = () => {
+    router.dismissTo({ pathname: "/", params: { commit: "deletion" } });
+  };
+
+  const renderItem = ({ item }: { item: ReviewItem }) => {
+    const marked = markedForDeletion.has(item.id);
+    return (
+      <TouchableOpacity
+        style={styles.item}
+        onPress={() => setFullScreenId(item.id)}
+        activeOpacity={0.7}
+      >
+        <Image
+          source={{ uri: item.uri }}
+          style={[styles.image, !marked && styles.unmarkedImage]}
+          contentFit="cover"
+        />
+        <TouchableOpacity
+          style={styles.selectButton}
+          onPress={() => toggleMarked(item.id)}
+          hitSlop={8}
+        >
+          <FontAwesome5
+            name={marked ? "check-circle" : "circle"}
+            size={20}
+            color={marked ? "#ff4444" : "#fff"}
+            solid={marked}
+          />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <FontAwesome5 name="chevron-left" size={20} color="#0a7ea4" />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>
+          Review Deletion
+        </ThemedText>
+      </View>
+      <ThemedText style={styles.note}>
+        {markedForDeletion.size.toLocaleString()} item(s),{" "}
+        {formatBytes(totalSize.bytes)}
+        {totalSize.complete ? "" : "+"}. Tap the circle to leave a photo out.
+      </ThemedText>
+      {loading && items.length === 0 ? (
+        <ActivityIndicator size="large" style={styles.loading} />
+      ) : (
+        <FlatList
+          data={items}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          numColumns={NUM_COLUMNS}
+          contentContainerStyle={styles.listContent}
+          columnWrapperStyle={styles.row}
+          ListEmptyComponent={
+            <ThemedText style={styles.emptyText}>
+              Nothing is marked for deletion.
+            </ThemedText>
+          }
+        />
+      )}
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[
+            styles.confirmButton,
+            markedForDeletion.size === 0 && styles.disabledButton,
+          ]}
+          onPress={handleConfirm}
+          disabled={markedForDeletion.size === 0}
+        >
+          <FontAwesome5 name="trash" size={16} color="#fff" />
+          <ThemedText style={styles.confirmText}>
+            Delete {markedForDeletion.size.toLocaleString()}
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+      <Modal
+        visible={fullScreenItem !== undefined}
+        animationType="fade"
+        onRequestClose={() => setFullScreenId(null)}
+      >
+        <View style={styles.fullScreen}>
+          {fullScreenItem && (
+            <>
+              <Image
+                source={{ uri: fullScreenItem.uri }}
+                style={styles.fullScreenImage}
+                contentFit="contain"
+              />
+              <TouchableOpacity
+                style={styles.closeButton}
+                onPress={() => setFullScreenId(null)}
+              >
+                <FontAwesome5 name="times" size={24} color="#fff" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.fullScreenToggle,
+                  markedForDeletion.has(fullScreenItem.id)
+                    ? styles.keepToggle
+                    : styles.deleteToggle,
+                ]}
+                onPress={() => toggleMarked(fullScreenItem.id)}
+              >
+                <ThemedText style={styles.confirmText}>
+                  {markedForDeletion.has(fullScreenItem.id)
+                    ? "Don't delete"
+                    : "Delete this photo"}
+                </ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </Modal>
+      <BottomNavBar />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingBottom: BOTTOM_NAV_HEIGHT,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+  },
+  note: {
+    fontSize: 14,
+    opacity: 0.7,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  listContent: {
+    padding: GAP,
+  },
+  row: {
+    gap: GAP,
+    marginBottom: GAP,
+  },
+  emptyText: {
+    textAlign: "center",
+    opacity: 0.7,
+    marginTop: 40,
+  },
+  item: {
+    width: ITEM_SIZE,
+    height: ITEM_SIZE,
+  },
+  image: {
+    width: "100%",
+    height: "100%",
+  },
+  unmarkedImage: {
+    opacity: 0.4,
+  },
+  selectButton: {
+    position: "absolute",
+    top: 6,
+    right: 6,
+  },
+  actions: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  confirmButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#ff4444",
+    borderRadius: 16,
+    paddingVertical: 12,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  confirmText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  fullScreen: {
+    flex: 1,
+    backgroundColor: "#000",
+    justifyContent: "center",
+  },
+  fullScreenImage: {
+    width: "100%",
+    height: "100%",
+  },
+  closeButton: {
+    position: "absolute",
+    top: 60,
+    right: 20,
+  },
+  fullScreenToggle: {
+    position: "absolute",
+    bottom: 50,
+    alignSelf: "center",
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  keepToggle: {
+    backgroundColor: "#4CAF50",
+  },
+  deleteToggle: {
+    backgroundColor: "#ff4444",
+  },
+});
@@ -0,0 +1,319 @@
+import { BottomNavBar } from "@/components/bottom-nav-bar";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { MediaFilter, useImageSwipe } from "@/contexts/image-swipe-context";
+import { TRASH_RETENTION_OPTIONS } from "@/hooks/use-trash";
+import { SERIES_WINDOW_OPTIONS } from "@/utils/series";
+import {
+  SWIPE_ACTION_INFO,
+  SWIPE_ACTIONS,
+  SWIPE_DIRECTIONS,
+  SwipeDirection,
+} from "@/utils/swipe-actions";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { useRouter } from "expo-router";
+import { ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+
+const BOTTOM_NAV_HEIGHT = 77; // Height of bottom navigation bar
+
+const MEDIA_FILTER_OPTIONS: { value: MediaFilter; title: string }[] = [
+  { value: "photos", title: "Photos" },
+  { value: "videos", title: "Videos" },
+  { value: "all", title: "Both" },
+];
+
+const DIRECTION_TITLES: Record<SwipeDirection, string> = {
+  left: "Swipe left",
+  right: "Swipe right",
+  up: "Swipe up",
+  down: "Swipe down",
+};
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const {
+    mediaFilter,
+    setMediaFilter,
+    seriesWindowSeconds,
+    setSeriesWindowSeconds,
+    trashRetentionDays,
+    setTrashRetentionDays,
+    prunedCount,
+    albums,
+    swipeActionMap,
+    setSwipeAction,
+    swipeActionAlbumId,
+    setSwipeActionAlbumId,
+  } = useImageSwipe();
+
+  const usesAlbumAction = SWIPE_DIRECTIONS.some(
+    (direction) => swipeActionMap[direction] === "album"
+  );
+  // Smart albums can't be added to
+  const targetAlbums = albums.filter((album) => !album.smart);
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => router.back()}>
+              <FontAwesome5 name="chevron-left" size={20} color="#0a7ea4" />
+            </TouchableOpacity>
+            <ThemedText type="title" style={styles.title}>
+              Settings
+            </ThemedText>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Media types</ThemedText>
+            <View style={styles.optionRow}>
+              {MEDIA_FILTER_OPTIONS.map((option) => {
+                const selected = option.value === mediaFilter;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.option, selected && styles.selectedOption]}
+                    onPress={() => setMediaFilter(option.value)}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.optionText,
+                        selected && styles.selectedOptionText,
+                      ]}
+                    >
+                      {option.title}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Swipe actions</ThemedText>
+            <ThemedText style={[styles.note, styles.sectionNote]}>
+              What each swipe does. The buttons on the review screen follow the
+              same choices.
+            </ThemedText>
+            {SWIPE_DIRECTIONS.map((direction) => (
+              <View key={direction} style={styles.directionGroup}>
+                <ThemedText style={styles.directionTitle}>
+                  {DIRECTION_TITLES[direction]}
+                </ThemedText>
+                <View style={styles.optionRow}>
+                  {SWIPE_ACTIONS.map((action) => {
+                    const selected = action === swipeActionMap[direction];
+                    return (
+                      <TouchableOpacity
+                        key={action}
+                        style={[
+                          styles.option,
+                          selected && styles.selectedOption,
+                        ]}
+                        onPress={() => setSwipeAction(direction, action)}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.optionText,
+                            selected && styles.selectedOptionText,
+                          ]}
+                        >
+                          {SWIPE_ACTION_INFO[action].title}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+            {usesAlbumAction && (
+              <View style={styles.directionGroup}>
+                <ThemedText style={styles.directionTitle}>
+                  Album to add to
+                </ThemedText>
+                {targetAlbums.length === 0 ? (
+                  <ThemedText style={styles.note}>
+                    No albums in your library yet.
+                  </ThemedText>
+                ) : (
+                  <View style={styles.optionRow}>
+                    {targetAlbums.map((album) => {
+                      const selected = album.id === swipeActionAlbumId;
+                      return (
+                        <TouchableOpacity
+                          key={album.id}
+                          style={[
+                            styles.option,
+                            selected && styles.selectedOption,
+                          ]}
+                          onPress={() =>
+                            setSwipeActionAlbumId(selected ? null : album.id)
+                          }
+                        >
+                          <ThemedText
+                            style={[
+                              styles.optionText,
+                              selected && styles.selectedOptionText,
+                            ]}
+                          >
+                            {album.title}
+                          </ThemedText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+              </View>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Series</ThemedText>
+            <ThemedText style={[styles.note, styles.sectionNote]}>
+              Shots taken within this many seconds of each other are grouped as
+              one series.
+            </ThemedText>
+            <View style={styles.optionRow}>
+              {SERIES_WINDOW_OPTIONS.map((seconds) => {
+                const selected = seconds === seriesWindowSeconds;
+                return (
+                  <TouchableOpacity
+                    key={seconds}
+                    style={[styles.option, selected && styles.selectedOption]}
+                    onPress={() => setSeriesWindowSeconds(seconds)}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.optionText,
+                        selected && styles.selectedOptionText,
+                      ]}
+                    >
+                      {seconds === 0 ? "Off" : `${seconds}s`}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Trash</ThemedText>
+            <ThemedText style={[styles.note, styles.sectionNote]}>
+              Deleted photos stay in the trash this long before they are removed
+              from your library.
+            </ThemedText>
+            <View style={styles.optionRow}>
+              {TRASH_RETENTION_OPTIONS.map((days) => {
+                const selected = days === trashRetentionDays;
+                return (
+                  <TouchableOpacity
+                    key={days}
+                    style={[styles.option, selected && styles.selectedOption]}
+                    onPress={() => setTrashRetentionDays(days)}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.optionText,
+                        selected && styles.selectedOptionText,
+                      ]}
+                    >
+                      {days} days
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Library</ThemedText>
+            <ThemedText style={styles.note}>
+              {prunedCount > 0
+                ? `Cleaned up ${prunedCount} saved choice(s) for photos that no longer exist.`
+                : "Saved choices are up to date with your library."}
+            </ThemedText>
+          </View>
+        </View>
+      </ScrollView>
+      <BottomNavBar />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingBottom: BOTTOM_NAV_HEIGHT,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  note: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  sectionNote: {
+    marginBottom: 12,
+  },
+  directionGroup: {
+    marginBottom: 16,
+  },
+  directionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  selectedOption: {
+    backgroundColor: "#4CAF50",
+  },
+  optionText: {
+    fontSize: 15,
+  },
+  selectedOptionText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
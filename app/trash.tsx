@@ -0,0 +1,422 @@
+import { BottomNavBar } from "@/components/bottom-nav-bar";
+import { PermissionRequired } from "@/components/permission-required";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useAssetMetadataContext } from "@/contexts/asset-metadata-context";
+import { useImageSwipe } from "@/contexts/image-swipe-context";
+import { useAssetLookup } from "@/hooks/use-asset-lookup";
+import { useTotalFileSize } from "@/hooks/use-total-file-size";
+import { formatBytes } from "@/utils/format";
+import { DAY_MS } from "@/utils/review-scope";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { Image } from "expo-image";
+import { useRouter } from "expo-router";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const { width: SCREEN_WIDTH } = Dimensions.get("window");
+const NUM_COLUMNS = 3;
+const GAP = 2;
+const ITEM_SIZE = (SCREEN_WIDTH - GAP * (NUM_COLUMNS + 1)) / NUM_COLUMNS;
+const BOTTOM_NAV_HEIGHT = 77; // Height of bottom navigation bar
+
+type TrashItem = {
+  id: string;
+  uri: string;
+  trashedAt: number;
+};
+
+export default function TrashScreen() {
+  const router = useRouter();
+  const {
+    permissionGranted,
+    trash,
+    trashRetentionDays,
+    restoreFromTrash,
+    purgeFromTrash,
+  } = useImageSwipe();
+  const [selected, setSelected] = useState<ReadonlySet<string>>(new Set());
+  // Set while deleting, with the number of items handled so far
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const busy = progress !== null;
+  const { metadata } = useAssetMetadataContext();
+
+  // Trashed assets aren't in the deck, so look them up in the library
+  const trashedIds = useMemo(() => [...trash.keys()], [trash]);
+  const { infos, loading } = useAssetLookup(trashedIds);
+  const items = useMemo(() => {
+    const found: TrashItem[] = [];
+    trash.forEach((trashedAt, id) => {
+      const info = infos.get(id);
+      if (info) {
+        found.push({ id, uri: info.uri, trashedAt });
+      }
+    });
+    return found.sort((a, b) => b.trashedAt - a.trashedAt);
+  }, [trash, infos]);
+
+  // Deleted outside the app, nothing left to restore
+  useEffect(() => {
+    const goneIds = trashedIds.filter((id) => infos.get(id) === null);
+    if (goneIds.length > 0) {
+      restoreFromTrash(goneIds);
+    }
+  }, [trashedIds, infos, restoreFromTrash]);
+
+  // Selection is what the buttons act on, everything when nothing is selected
+  const targetIds = useMemo(
+    () =>
+      selected.size > 0
+        ? new Set([...selected].filter((id) => trash.has(id)))
+        : new Set(trash.keys()),
+    [selected, trash]
+  );
+  const targetSize = useTotalFileSize(targetIds);
+  const sizeText = `${formatBytes(targetSize.bytes)}${targetSize.complete ? "" : "+"}`;
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleRestore = async () => {
+    try {
+      await restoreFromTrash([...targetIds]);
+      setSelected(new Set());
+    } catch (error) {
+      console.error("Error restoring from trash:", error);
+      Alert.alert("Error", "Failed to restore some items.");
+    }
+  };
+
+  const purge = async (ids: string[]) => {
+    // Deleted files can't be measured afterwards, so read their sizes now
+    const sizes = new Map(ids.map((id) => [id, metadata.get(id)?.fileSize]));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: ids.length });
+    try {
+      const { deletedIds, failedIds, skippedIds } = await purgeFromTrash(ids, {
+        onProgress: (done, total) => setProgress({ done, total }),
+        signal: controller.signal,
+      });
+      setSelected(new Set());
+
+      let freedBytes = 0;
+      let allMeasured = true;
+      deletedIds.forEach((id) => {
+        const size = sizes.get(id);
+        if (size == null) {
+          allMeasured = false;
+        } else {
+          freedBytes += size;
+        }
+      });
+      const summary = `Permanently deleted ${deletedIds.length} item(s), freeing ${allMeasured ? "" : "at least "}${formatBytes(freedBytes)}.`;
+
+      if (failedIds.length > 0) {
+        Alert.alert(
+          "Some Items Not Deleted",
+          `${summary} ${failedIds.length} item(s) couldn't be deleted and are still in the trash.`,
+          [
+            { text: "OK", style: "cancel" },
+            { text: "Retry", onPress: () => purge(failedIds) },
+          ]
+        );
+      } else if (skippedIds.length > 0) {
+        Alert.alert(
+          "Deletion Stopped",
+          `${summary} The other ${skippedIds.length} item(s) are still in the trash.`
+        );
+      } else {
+        Alert.alert("Deleted", summary);
+      }
+    } catch (error) {
+      console.error("Error purging trash:", error);
+      Alert.alert("Error", "Failed to delete some items.");
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handlePurge = () => {
+    Alert.alert(
+      "Delete Permanently",
+      `Delete ${targetIds.size} item(s) from your library? This can't be undone in the app.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => purge([...targetIds]),
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: TrashItem }) => {
+    const daysLeft = Math.max(
+      0,
+      Math.ceil(
+        (item.trashedAt + trashRetentionDays * DAY_MS - Date.now()) / DAY_MS
+      )
+    );
+    const isSelected = selected.has(item.id);
+    return (
+      <TouchableOpacity
+        style={styles.item}
+        onPress={() => toggleSelected(item.id)}
+        activeOpacity={0.7}
+      >
+        <Image
+          source={{ uri: item.uri }}
+          style={styles.image}
+          contentFit="cover"
+        />
+        {isSelected && (
+          <View style={styles.selectedOverlay}>
+            <FontAwesome5 name="check-circle" size={24} color="#fff" />
+          </View>
+        )}
+        <View style={styles.daysBadge}>
+          <ThemedText style={styles.daysBadgeText}>{daysLeft}d left</ThemedText>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (!permissionGranted) {
+    return (
+      <ThemedView style={styles.centered}>
+        <PermissionRequired />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <FontAwesome5 name="chevron-left" size={20} color="#0a7ea4" />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>
+          Trash
+        </ThemedText>
+      </View>
+      <ThemedText style={styles.note}>
+        Items are deleted for good after {trashRetentionDays} days.
+      </ThemedText>
+      {loading ? (
+        <ActivityIndicator size="large" style={styles.loading} />
+      ) : (
+        <FlatList
+          data={items}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          numColumns={NUM_COLUMNS}
+          contentContainerStyle={styles.listContent}
+          columnWrapperStyle={styles.row}
+          ListEmptyComponent={
+            <ThemedText style={styles.emptyText}>
+              The trash is empty.
+            </ThemedText>
+          }
+        />
+      )}
+      {progress && (
+        <View style={styles.progressRow}>
+          <View style={styles.progressInfo}>
+            <ThemedText style={styles.progressText}>
+              Deleting {progress.done.toLocaleString()} of{" "}
+              {progress.total.toLocaleString()}...
+            </ThemedText>
+            <View style={styles.progressTrack}>
+              <View
+                style={[
+                  styles.progressFill,
+                  { width: `${(progress.done / progress.total) * 100}%` },
+                ]}
+              />
+            </View>
+          </View>
+          <TouchableOpacity onPress={() => abortRef.current?.abort()}>
+            <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </View>
+      )}
+      {trash.size > 0 && !progress && (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.restoreButton]}
+            onPress={handleRestore}
+            disabled={busy}
+          >
+            <ThemedText style={styles.actionText}>
+              {selected.size > 0 ? `Restore ${targetIds.size}` : "Restore All"}
+            </ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.purgeButton]}
+            onPress={handlePurge}
+            disabled={busy}
+          >
+            <ThemedText style={styles.actionText}>
+              {selected.size > 0
+                ? `Delete ${targetIds.size} (${sizeText})`
+                : `Empty Trash (${sizeText})`}
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+      )}
+      <BottomNavBar />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingBottom: BOTTOM_NAV_HEIGHT,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingBottom: BOTTOM_NAV_HEIGHT,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+  },
+  note: {
+    fontSize: 14,
+    opacity: 0.7,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  listContent: {
+    padding: GAP,
+  },
+  row: {
+    gap: GAP,
+    marginBottom: GAP,
+  },
+  emptyText: {
+    textAlign: "center",
+    opacity: 0.7,
+    marginTop: 40,
+  },
+  item: {
+    width: ITEM_SIZE,
+    height: ITEM_SIZE,
+  },
+  image: {
+    width: "100%",
+    height: "100%",
+  },
+  selectedOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(33, 150, 243, 0.4)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  daysBadge: {
+    position: "absolute",
+    bottom: 4,
+    left: 4,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+  },
+  daysBadgeText: {
+    color: "#fff",
+    fontSize: 11,
+    fontWeight: "600",
+    lineHeight: 16,
+  },
+  progressRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  progressInfo: {
+    flex: 1,
+    gap: 6,
+  },
+  progressText: {
+    fontSize: 14,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "rgba(0, 0, 0, 0.1)",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#ff4444",
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#2196F3",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: "center",
+    borderRadius: 16,
+    paddingVertical: 12,
+  },
+  restoreButton: {
+    backgroundColor: "#4CAF50",
+  },
+  purgeButton: {
+    backgroundColor: "#ff4444",
+  },
+  actionText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,148 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { AlbumSummary, useImageSwipe } from "@/contexts/image-swipe-context";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { useState } from "react";
+import {
+  FlatList,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+// Entry for reviewing the whole library
+const ALL_PHOTOS_ITEM = { id: null, title: "All Photos" } as const;
+
+type PickerItem = typeof ALL_PHOTOS_ITEM | AlbumSummary;
+
+export function AlbumPicker() {
+  const [visible, setVisible] = useState(false);
+  const { albums, selectedAlbumId, selectAlbum, refreshAlbums } =
+    useImageSwipe();
+
+  const selectedTitle =
+    albums.find((album) => album.id === selectedAlbumId)?.title ??
+    ALL_PHOTOS_ITEM.title;
+
+  const handleOpen = () => {
+    setVisible(true);
+    // Album counts change as photos are deleted, so reload on open
+    refreshAlbums();
+  };
+
+  const handleSelect = (albumId: string | null) => {
+    setVisible(false);
+    selectAlbum(albumId);
+  };
+
+  const renderItem = ({ item }: { item: PickerItem }) => {
+    const selected = item.id === selectedAlbumId;
+    return (
+      <TouchableOpacity
+        style={styles.albumRow}
+        onPress={() => handleSelect(item.id)}
+      >
+        <ThemedText style={[styles.albumTitle, selected && styles.selected]}>
+          {item.title}
+        </ThemedText>
+        {"assetCount" in item && (
+          <ThemedText style={styles.albumCount}>
+            {item.assetCount.toLocaleString()}
+          </ThemedText>
+        )}
+        {selected && <FontAwesome5 name="check" size={14} color="#4CAF50" />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.trigger} onPress={handleOpen}>
+        <FontAwesome5 name="folder-open" size={14} color="#666" />
+        <ThemedText style={styles.triggerText} numberOfLines={1}>
+          {selectedTitle}
+        </ThemedText>
+        <FontAwesome5 name="chevron-down" size={12} color="#666" />
+      </TouchableOpacity>
+      <Modal
+        visible={visible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setVisible(false)}
+      >
+        <View style={styles.backdrop}>
+          <ThemedView style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <ThemedText type="subtitle">Choose Album</ThemedText>
+              <TouchableOpacity onPress={() => setVisible(false)}>
+                <FontAwesome5 name="times" size={20} color="#666" />
+              </TouchableOpacity>
+            </View>
+            <FlatList<PickerItem>
+              data={[ALL_PHOTOS_ITEM, ...albums]}
+              renderItem={renderItem}
+              keyExtractor={(item) => item.id ?? "all"}
+            />
+          </ThemedView>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  trigger: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    maxWidth: 240,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  triggerText: {
+    fontSize: 14,
+    fontWeight: "600",
+    flexShrink: 1,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  sheet: {
+    maxHeight: "70%",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 30,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 20,
+  },
+  albumRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(0, 0, 0, 0.05)",
+  },
+  albumTitle: {
+    flex: 1,
+    fontSize: 16,
+  },
+  albumCount: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  selected: {
+    fontWeight: "600",
+    color: "#4CAF50",
+  },
+});
@@ -0,0 +1,141 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useAssetMetadata } from "@/contexts/asset-metadata-context";
+import { ImageAsset, useImageSwipe } from "@/contexts/image-swipe-context";
+import { formatBytes, formatDuration } from "@/utils/format";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { Modal, StyleSheet, TouchableOpacity, View } from "react-native";
+
+type AssetInfoOverlayProps = {
+  asset: ImageAsset | undefined;
+  visible: boolean;
+  onClose: () => void;
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// Details sheet for the photo or video on top of the deck
+export function AssetInfoOverlay({
+  asset,
+  visible,
+  onClose,
+}: AssetInfoOverlayProps) {
+  const { albums } = useImageSwipe();
+  // Only fetch while the sheet is open
+  const metadata = useAssetMetadata(visible ? asset?.id : undefined);
+
+  if (!asset) {
+    return null;
+  }
+
+  const loading = metadata === undefined;
+  const unavailable = metadata === null;
+  const albumTitle = asset.albumId
+    ? albums.find((album) => album.id === asset.albumId)?.title
+    : undefined;
+  const rows: { label: string; value: string | undefined }[] = [
+    { label: "Name", value: asset.filename },
+    { label: "Taken", value: formatDate(asset.creationTime) },
+    { label: "Modified", value: formatDate(asset.modificationTime) },
+    { label: "Dimensions", value: `${asset.width} × ${asset.height}` },
+    {
+      label: "Type",
+      value:
+        asset.mediaType === "video"
+          ? `Video, ${formatDuration(asset.duration)}`
+          : ["Photo", ...asset.mediaSubtypes].join(", "),
+    },
+    {
+      label: "Size",
+      value: loading
+        ? "Loading…"
+        : unavailable
+          ? "Couldn't be read"
+          : metadata.fileSize !== null
+            ? formatBytes(metadata.fileSize)
+            : "Not on this device",
+    },
+    { label: "Album", value: albumTitle },
+    {
+      label: "Location",
+      value: loading
+        ? "Loading…"
+        : metadata?.location
+          ? `${metadata.location.latitude.toFixed(4)}, ${metadata.location.longitude.toFixed(4)}`
+          : undefined,
+    },
+    {
+      label: "Favorite",
+      value: metadata?.isFavorite ? "Yes" : undefined,
+    },
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <ThemedView style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <ThemedText type="subtitle">Info</ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <FontAwesome5 name="times" size={20} color="#666" />
+            </TouchableOpacity>
+          </View>
+          {rows
+            .filter((row) => row.value !== undefined)
+            .map((row) => (
+              <View key={row.label} style={styles.row}>
+                <ThemedText style={styles.label}>{row.label}</ThemedText>
+                <ThemedText style={styles.value} numberOfLines={2}>
+                  {row.value}
+                </ThemedText>
+              </View>
+            ))}
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 20,
+  },
+  row: {
+    flexDirection: "row",
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(0, 0, 0, 0.05)",
+  },
+  label: {
+    width: 100,
+    fontSize: 15,
+    opacity: 0.6,
+  },
+  value: {
+    flex: 1,
+    fontSize: 15,
+  },
+});
@@ -55,6 +55,25 @@ export function BottomNavBar() {
         </ThemedText>
       </TouchableOpacity>
 
+      <TouchableOpacity
+        style={[styles.button, isActive("/cleanup") && styles.activeButton]}
+        onPress={() => router.push("/cleanup")}
+      >
+        <FontAwesome5
+          name="broom"
+          size={20}
+          color={isActive("/cleanup") ? "#4CAF50" : "#666"}
+        />
+        <ThemedText
+          style={[
+            styles.buttonText,
+            isActive("/cleanup") && styles.activeButtonText,
+          ]}
+        >
+          Clean Up
+        </ThemedText>
+      </TouchableOpacity>
+
       <TouchableOpacity
         style={[styles.button, isActive("/account") && styles.activeButton]}
         onPress={() => router.push("/account")}
@@ -0,0 +1,202 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useImageSwipe } from "@/contexts/image-swipe-context";
+import { useAssetLookup } from "@/hooks/use-asset-lookup";
+import { HistoryEntry } from "@/hooks/use-swipe-history";
+import { Decision } from "@/storage/persisted-state";
+import { formatTimeAgo } from "@/utils/format";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { Image } from "expo-image";
+import { useMemo } from "react";
+import {
+  FlatList,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const DECISION_LABELS: Record<Decision, string> = {
+  keep: "Kept",
+  delete: "Marked for deletion",
+  skip: "Set aside for later",
+};
+
+const DECISION_COLORS: Record<Decision, string> = {
+  keep: "#4CAF50",
+  delete: "#ff4444",
+  skip: "#2196F3",
+};
+
+// What a step did to the image it was taken on
+const describeStep = (entry: HistoryEntry) => {
+  const change = entry.changes.find((c) => c.imageId === entry.imageId);
+  const decided = change?.next ? DECISION_LABELS[change.next] : "Undecided";
+  const label = entry.favorite ? `${decided}, favorite toggled` : decided;
+  const others = entry.changes.length - 1;
+  return others > 0 ? `${label}, ${others} more marked` : label;
+};
+
+export function HistorySheet({
+  visible,
+  onClose,
+  onJumpBack,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  // Undo the step at this history index and everything after it
+  onJumpBack: (index: number) => void;
+}) {
+  const { history, images } = useImageSwipe();
+
+  // Newest first, remembering each step's place in the history
+  const steps = useMemo(
+    () => history.map((entry, index) => ({ entry, index })).reverse(),
+    [history]
+  );
+
+  // Steps on images that aren't loaded in the deck are looked up
+  const loadedById = useMemo(
+    () => new Map(images.map((img) => [img.id, img])),
+    [images]
+  );
+  const notLoadedIds = useMemo(
+    () =>
+      visible
+        ? history
+            .map((entry) => entry.imageId)
+            .filter((id) => !loadedById.has(id))
+        : [],
+    [visible, history, loadedById]
+  );
+  const { infos } = useAssetLookup(notLoadedIds);
+
+  const renderStep = ({
+    item: { entry, index },
+  }: {
+    item: { entry: HistoryEntry; index: number };
+  }) => {
+    const uri =
+      loadedById.get(entry.imageId)?.uri ?? infos.get(entry.imageId)?.uri;
+    const next = entry.changes.find((c) => c.imageId === entry.imageId)?.next;
+    return (
+      <TouchableOpacity
+        style={styles.stepRow}
+        onPress={() => {
+          onClose();
+          onJumpBack(index);
+        }}
+      >
+        {uri ? (
+          <Image source={{ uri }} style={styles.thumbnail} contentFit="cover" />
+        ) : (
+          <View style={[styles.thumbnail, styles.missingThumbnail]} />
+        )}
+        <View style={styles.stepText}>
+          <ThemedText
+            style={[styles.stepTitle, next && { color: DECISION_COLORS[next] }]}
+          >
+            {describeStep(entry)}
+          </ThemedText>
+          <ThemedText style={styles.stepTime}>
+            {formatTimeAgo(entry.at)}
+          </ThemedText>
+        </View>
+        <FontAwesome5 name="undo" size={14} color="#666" />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <ThemedView style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <ThemedText type="subtitle">History</ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <FontAwesome5 name="times" size={20} color="#666" />
+            </TouchableOpacity>
+          </View>
+          <ThemedText style={styles.note}>
+            Tap a step to go back to it. It and everything after it are undone
+            and can be redone.
+          </ThemedText>
+          <FlatList
+            data={steps}
+            renderItem={renderStep}
+            keyExtractor={({ entry, index }) => `${index}:${entry.at}`}
+            ListEmptyComponent={
+              <ThemedText style={styles.emptyText}>
+                Nothing to undo yet.
+              </ThemedText>
+            }
+          />
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  sheet: {
+    maxHeight: "70%",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 30,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 20,
+  },
+  note: {
+    fontSize: 14,
+    opacity: 0.7,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  emptyText: {
+    textAlign: "center",
+    opacity: 0.7,
+    padding: 20,
+  },
+  stepRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(0, 0, 0, 0.05)",
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+  },
+  missingThumbnail: {
+    backgroundColor: "rgba(0, 0, 0, 0.1)",
+  },
+  stepText: {
+    flex: 1,
+  },
+  stepTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  stepTime: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+});
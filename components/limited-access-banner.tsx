@@ -0,0 +1,53 @@
+import { ThemedText } from "@/components/themed-text";
+import { useImageSwipe } from "@/contexts/image-swipe-context";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { Linking, StyleSheet, TouchableOpacity, View } from "react-native";
+
+// Explains limited photo access and offers to extend the selection
+export function LimitedAccessBanner() {
+  const { accessPrivileges, presentLimitedAccessPicker } = useImageSwipe();
+
+  if (accessPrivileges !== "limited") {
+    return null;
+  }
+
+  return (
+    <View style={styles.banner}>
+      <FontAwesome5 name="info-circle" size={16} color="#8a6d00" />
+      <ThemedText style={styles.text}>
+        You&apos;ve shared only some of your photos.
+      </ThemedText>
+      <TouchableOpacity onPress={presentLimitedAccessPicker}>
+        <ThemedText style={styles.action}>Select More</ThemedText>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => Linking.openSettings()}>
+        <ThemedText style={styles.action}>Settings</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: "#FFF4CC",
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    color: "#5c4a00",
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#0a7ea4",
+  },
+});
@@ -0,0 +1,70 @@
+import { ThemedText } from "@/components/themed-text";
+import { useImageSwipe } from "@/contexts/image-swipe-context";
+import { Linking, StyleSheet, TouchableOpacity, View } from "react-native";
+
+// Recovery path shown when photo library access is missing
+export function PermissionRequired() {
+  const { canAskPermissionAgain, retryPermission } = useImageSwipe();
+
+  return (
+    <View style={styles.container}>
+      <ThemedText type="title" style={styles.title}>
+        Permission Required
+      </ThemedText>
+      <ThemedText style={styles.subtitle}>
+        {canAskPermissionAgain
+          ? "Please grant photo library access to use this app."
+          : "Photo library access was denied. Turn it on in Settings, then come back to the app."}
+      </ThemedText>
+      {canAskPermissionAgain && (
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={retryPermission}
+        >
+          <ThemedText style={styles.primaryButtonText}>Allow Access</ThemedText>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => Linking.openSettings()}
+      >
+        <ThemedText style={styles.secondaryButtonText}>
+          Open Settings
+        </ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+    paddingHorizontal: 20,
+  },
+  title: {
+    marginBottom: 16,
+  },
+  subtitle: {
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  primaryButton: {
+    backgroundColor: "#4CAF50",
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+    borderRadius: 24,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+  },
+  secondaryButtonText: {
+    color: "#0a7ea4",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,180 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useImageSwipe } from "@/contexts/image-swipe-context";
+import {
+  ALL_TIME_SCOPE,
+  describeScope,
+  isSameScope,
+  monthName,
+  ReviewScope,
+} from "@/utils/review-scope";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { useState } from "react";
+import { Modal, StyleSheet, TouchableOpacity, View } from "react-native";
+
+const PRESETS: ReviewScope[] = [
+  ALL_TIME_SCOPE,
+  { kind: "lastDays", days: 30 },
+  { kind: "onThisDay" },
+];
+
+const MONTHS = Array.from({ length: 12 }, (_, month) => month);
+
+export function ScopePicker() {
+  const [visible, setVisible] = useState(false);
+  const { reviewScope, setReviewScope } = useImageSwipe();
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(
+    reviewScope.kind === "month" || reviewScope.kind === "year"
+      ? reviewScope.year
+      : currentYear
+  );
+
+  const handleSelect = (scope: ReviewScope) => {
+    setVisible(false);
+    setReviewScope(scope);
+  };
+
+  const renderChip = (
+    scope: ReviewScope,
+    label: string = describeScope(scope)
+  ) => {
+    const selected = isSameScope(scope, reviewScope);
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[styles.chip, selected && styles.selectedChip]}
+        onPress={() => handleSelect(scope)}
+      >
+        <ThemedText
+          style={[styles.chipText, selected && styles.selectedChipText]}
+        >
+          {label}
+        </ThemedText>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.trigger} onPress={() => setVisible(true)}>
+        <FontAwesome5 name="calendar-alt" size={14} color="#666" />
+        <ThemedText style={styles.triggerText} numberOfLines={1}>
+          {describeScope(reviewScope)}
+        </ThemedText>
+        <FontAwesome5 name="chevron-down" size={12} color="#666" />
+      </TouchableOpacity>
+      <Modal
+        visible={visible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setVisible(false)}
+      >
+        <View style={styles.backdrop}>
+          <ThemedView style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <ThemedText type="subtitle">Review Period</ThemedText>
+              <TouchableOpacity onPress={() => setVisible(false)}>
+                <FontAwesome5 name="times" size={20} color="#666" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.chipRow}>
+              {PRESETS.map((scope) => renderChip(scope))}
+            </View>
+
+            <View style={styles.yearStepper}>
+              <TouchableOpacity onPress={() => setYear((prev) => prev - 1)}>
+                <FontAwesome5 name="chevron-left" size={16} color="#0a7ea4" />
+              </TouchableOpacity>
+              <ThemedText type="defaultSemiBold">{year}</ThemedText>
+              <TouchableOpacity
+                disabled={year >= currentYear}
+                onPress={() => setYear((prev) => prev + 1)}
+              >
+                <FontAwesome5
+                  name="chevron-right"
+                  size={16}
+                  color={year >= currentYear ? "#ccc" : "#0a7ea4"}
+                />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.chipRow}>
+              {renderChip({ kind: "year", year }, `All of ${year}`)}
+              {MONTHS.map((month) =>
+                renderChip(
+                  { kind: "month", year, month },
+                  monthName(month).slice(0, 3)
+                )
+              )}
+            </View>
+          </ThemedView>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  trigger: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    maxWidth: 200,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  triggerText: {
+    fontSize: 14,
+    fontWeight: "600",
+    flexShrink: 1,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 20,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  selectedChip: {
+    backgroundColor: "#4CAF50",
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  selectedChipText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  yearStepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 24,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+});
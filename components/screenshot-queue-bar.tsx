@@ -0,0 +1,114 @@
+import { ThemedText } from "@/components/themed-text";
+import { useImageSwipe } from "@/contexts/image-swipe-context";
+import { describeMinAge, SCREENSHOT_AGE_OPTIONS } from "@/utils/screenshots";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { Alert, ScrollView, StyleSheet, TouchableOpacity } from "react-native";
+
+// Age filter and mark-all for the screenshot queue
+export function ScreenshotQueueBar() {
+  const {
+    images,
+    decisions,
+    recordDecisions,
+    screenshotMinAgeDays,
+    setScreenshotMinAgeDays,
+  } = useImageSwipe();
+
+  // Screenshots the user already decided on, or set aside, are left alone
+  const unmarked = images.filter((img) => !decisions.has(img.id));
+
+  // One undoable step, taken on the first screenshot marked
+  const markAll = () => {
+    if (unmarked.length === 0) {
+      return;
+    }
+    recordDecisions(
+      unmarked[0].id,
+      unmarked.map((img) => ({ imageId: img.id, decision: "delete" as const }))
+    );
+  };
+
+  const handleMarkAll = () => {
+    Alert.alert(
+      "Mark All Screenshots",
+      `Mark ${unmarked.length.toLocaleString()} screenshot(s) for deletion? Nothing is deleted until you tap the trash button.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Mark All",
+          style: "destructive",
+          onPress: markAll,
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.bar}
+      contentContainerStyle={styles.barContent}
+    >
+      {SCREENSHOT_AGE_OPTIONS.map((days) => {
+        const selected = days === screenshotMinAgeDays;
+        return (
+          <TouchableOpacity
+            key={days}
+            style={[styles.chip, selected && styles.selectedChip]}
+            onPress={() => setScreenshotMinAgeDays(days)}
+          >
+            <ThemedText
+              style={[styles.chipText, selected && styles.selectedChipText]}
+            >
+              {describeMinAge(days)}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+      <TouchableOpacity
+        style={[styles.chip, styles.markAllChip]}
+        disabled={unmarked.length === 0}
+        onPress={handleMarkAll}
+      >
+        <FontAwesome5 name="trash" size={11} color="#fff" />
+        <ThemedText style={[styles.chipText, styles.selectedChipText]}>
+          Mark all ({unmarked.length.toLocaleString()})
+        </ThemedText>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  barContent: {
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  selectedChip: {
+    backgroundColor: "#2196F3",
+  },
+  markAllChip: {
+    backgroundColor: "#ff4444",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  selectedChipText: {
+    color: "#fff",
+  },
+});
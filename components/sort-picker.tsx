@@ -0,0 +1,135 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useImageSwipe } from "@/contexts/image-swipe-context";
+import { SORT_ORDER_OPTIONS, SortOrder } from "@/utils/sort-order";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { useState } from "react";
+import { Modal, StyleSheet, TouchableOpacity, View } from "react-native";
+
+const SORT_ICONS: Record<SortOrder, string> = {
+  newest: "sort-amount-down",
+  oldest: "sort-amount-up",
+  largest: "weight-hanging",
+  shuffle: "random",
+  album: "folder",
+};
+
+export function SortPicker() {
+  const [visible, setVisible] = useState(false);
+  const { sortOrder, setSortOrder, reshuffle } = useImageSwipe();
+
+  const handleSelect = (order: SortOrder) => {
+    setVisible(false);
+    setSortOrder(order);
+  };
+
+  const handleReshuffle = () => {
+    setVisible(false);
+    reshuffle();
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.trigger} onPress={() => setVisible(true)}>
+        <FontAwesome5 name={SORT_ICONS[sortOrder]} size={14} color="#666" />
+      </TouchableOpacity>
+      <Modal
+        visible={visible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setVisible(false)}
+      >
+        <View style={styles.backdrop}>
+          <ThemedView style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <ThemedText type="subtitle">Sort By</ThemedText>
+              <TouchableOpacity onPress={() => setVisible(false)}>
+                <FontAwesome5 name="times" size={20} color="#666" />
+              </TouchableOpacity>
+            </View>
+            {SORT_ORDER_OPTIONS.map((option) => {
+              const selected = option.value === sortOrder;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={styles.optionRow}
+                  onPress={() => handleSelect(option.value)}
+                >
+                  <FontAwesome5
+                    name={SORT_ICONS[option.value]}
+                    size={14}
+                    color="#666"
+                  />
+                  <ThemedText
+                    style={[styles.optionTitle, selected && styles.selected]}
+                  >
+                    {option.title}
+                  </ThemedText>
+                  {selected && option.value === "shuffle" && (
+                    <TouchableOpacity onPress={handleReshuffle}>
+                      <ThemedText style={styles.reshuffle}>
+                        Reshuffle
+                      </ThemedText>
+                    </TouchableOpacity>
+                  )}
+                  {selected && (
+                    <FontAwesome5 name="check" size={14} color="#4CAF50" />
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </ThemedView>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  trigger: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 30,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 20,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(0, 0, 0, 0.05)",
+  },
+  optionTitle: {
+    flex: 1,
+    fontSize: 16,
+  },
+  reshuffle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#2196F3",
+  },
+  selected: {
+    fontWeight: "600",
+    color: "#4CAF50",
+  },
+});
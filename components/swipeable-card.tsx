@@ -1,6 +1,18 @@
+import { VideoPreview } from "@/components/video-preview";
+import type { MediaKind } from "@/contexts/image-swipe-context";
+import type { SeriesInfo } from "@/utils/series";
+import {
+  DEFAULT_SWIPE_ACTION_MAP,
+  SWIPE_ACTION_INFO,
+  SWIPE_DIRECTIONS,
+  SwipeActionMap,
+  SwipeDirection,
+} from "@/utils/swipe-actions";
+import { formatBytes, formatDuration } from "@/utils/format";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
 import * as Haptics from "expo-haptics";
 import { Image } from "expo-image";
-import React, { useEffect, useRef } from "react";
+import React, { Ref, useImperativeHandle } from "react";
 import { Dimensions, StyleSheet, View } from "react-native";
 import { Gesture, GestureDetector } from "react-native-gesture-handler";
 import Animated, {
@@ -17,139 +29,180 @@ const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
 const CARD_WIDTH = SCREEN_WIDTH * 0.9;
 const CARD_HEIGHT = SCREEN_HEIGHT * 0.65;
 const SWIPE_THRESHOLD = SCREEN_WIDTH * 0.3;
+const VERTICAL_SWIPE_THRESHOLD = SCREEN_HEIGHT * 0.15;
+
+const SWIPE_OUT = { duration: 250, easing: Easing.in(Easing.ease) };
+const RESTORE = { duration: 300, easing: Easing.out(Easing.ease) };
+
+// Where a card swiped in direction ends up, off screen
+const offScreen = (direction: SwipeDirection) => {
+  "worklet";
+  switch (direction) {
+    case "left":
+      return { x: -SCREEN_WIDTH * 2, y: 0 };
+    case "right":
+      return { x: SCREEN_WIDTH * 2, y: 0 };
+    case "up":
+      return { x: 0, y: -SCREEN_HEIGHT * 1.5 };
+    case "down":
+      return { x: 0, y: SCREEN_HEIGHT * 1.5 };
+  }
+};
+
+// How far a drag has gone towards direction, 1 at the swipe threshold. Only
+// the main axis of the drag counts.
+const dragProgress = (x: number, y: number, direction: SwipeDirection) => {
+  "worklet";
+  const horizontal = Math.abs(x) >= Math.abs(y);
+  if (horizontal !== (direction === "left" || direction === "right")) {
+    return 0;
+  }
+  const distance =
+    direction === "left"
+      ? -x
+      : direction === "right"
+        ? x
+        : direction === "up"
+          ? -y
+          : y;
+  const threshold = horizontal ? SWIPE_THRESHOLD : VERTICAL_SWIPE_THRESHOLD;
+  return Math.min(1, Math.max(0, distance / threshold));
+};
+
+// Direction a finished drag swipes the card in, null if not far enough
+const swipeDirectionOf = (x: number, y: number): SwipeDirection | null => {
+  "worklet";
+  if (Math.abs(x) >= Math.abs(y)) {
+    if (x < -SWIPE_THRESHOLD) return "left";
+    if (x > SWIPE_THRESHOLD) return "right";
+  } else {
+    if (y < -VERTICAL_SWIPE_THRESHOLD) return "up";
+    if (y > VERTICAL_SWIPE_THRESHOLD) return "down";
+  }
+  return null;
+};
+
+// Animations the deck runs on a card. Each promise resolves once the
+// animation has finished (or was interrupted).
+export type SwipeableCardHandle = {
+  // Fly the card off screen, e.g. for a button press
+  swipe: (direction: SwipeDirection) => Promise<void>;
+  // Bring the card back in from the side it was swiped to
+  restore: (fromDirection: SwipeDirection) => Promise<void>;
+  // Put the card back in the middle
+  reset: () => Promise<void>;
+};
 
 type SwipeableCardProps = {
+  ref?: Ref<SwipeableCardHandle>;
   imageUri: string;
   imageId: string;
-  onSwipeLeft: () => void;
-  onSwipeRight: () => void;
+  mediaType?: MediaKind;
+  duration?: number;
+  // Set when the image is part of a burst or series of shots
+  series?: SeriesInfo;
+  // Bytes, shown once the file has been measured
+  fileSize?: number | null;
+  // Favorited while reviewing
+  favorite?: boolean;
+  // What each direction does, for the overlays shown while dragging
+  actions?: SwipeActionMap;
+  // Called when the user swipes the card away
+  onSwipe: (direction: SwipeDirection) => void;
   index: number;
-  undoAnimation?: { trigger: number; wasLeftSwipe: boolean } | null;
-  programmaticSwipe?: { trigger: number; isLeft: boolean; imageId: string } | null;
+  // Off while the deck is busy, e.g. during an undo animation
+  swipeEnabled?: boolean;
 };
 
 export function SwipeableCard({
+  ref,
   imageUri,
   imageId,
-  onSwipeLeft,
-  onSwipeRight,
+  mediaType = "photo",
+  duration = 0,
+  series,
+  fileSize,
+  favorite = false,
+  actions = DEFAULT_SWIPE_ACTION_MAP,
+  onSwipe,
   index,
-  undoAnimation,
-  programmaticSwipe,
+  swipeEnabled = true,
 }: SwipeableCardProps) {
   const translateX = useSharedValue(0);
   const translateY = useSharedValue(0);
   const scale = useSharedValue(1);
   const opacity = useSharedValue(1);
   const isUndoing = useSharedValue(0);
-  const lastTriggerRef = useRef(0);
-  const lastProgrammaticSwipeRef = useRef(0);
-
-  // Handle undo animation
-  useEffect(() => {
-    if (
-      undoAnimation &&
-      undoAnimation.trigger > 0 &&
-      undoAnimation.trigger !== lastTriggerRef.current
-    ) {
-      lastTriggerRef.current = undoAnimation.trigger;
-
-      // Mark that we're undoing to suppress overlays
-      isUndoing.value = 1;
-
-      // Start from the swiped position (off-screen)
-      const startX = undoAnimation.wasLeftSwipe
-        ? -SCREEN_WIDTH * 2
-        : SCREEN_WIDTH * 2;
-      translateX.value = startX;
-      translateY.value = 0;
-      opacity.value = 0;
-      scale.value = 0.9;
 
-      // Animate back to center with smooth timing (no bounce)
-      translateX.value = withTiming(0, {
-        duration: 300,
-        easing: Easing.out(Easing.ease),
-      });
-      translateY.value = withTiming(0, {
-        duration: 300,
-        easing: Easing.out(Easing.ease),
-      });
-      opacity.value = withTiming(1, {
-        duration: 300,
-        easing: Easing.out(Easing.ease),
-      });
-      scale.value = withTiming(1, {
-        duration: 300,
-        easing: Easing.out(Easing.ease),
-      });
+  useImperativeHandle(ref, () => ({
+    swipe: (direction) =>
+      new Promise((resolve) => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        const target = offScreen(direction);
+        translateY.value = withTiming(target.y, SWIPE_OUT);
+        opacity.value = withTiming(0, SWIPE_OUT);
+        translateX.value = withTiming(target.x, SWIPE_OUT, () =>
+          runOnJS(resolve)()
+        );
+      }),
+    restore: (fromDirection) =>
+      new Promise((resolve) => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        // Mark that we're undoing to suppress overlays
+        isUndoing.value = 1;
 
-      // Reset isUndoing after animation completes
-      isUndoing.value = withTiming(0, {
-        duration: 300,
-        easing: Easing.out(Easing.ease),
-      });
+        // Start from the swiped position (off-screen)
+        const start = offScreen(fromDirection);
+        translateX.value = start.x;
+        translateY.value = start.y;
+        opacity.value = 0;
+        scale.value = 0.9;
 
-      runOnJS(Haptics.impactAsync)(Haptics.ImpactFeedbackStyle.Light);
-    }
-  }, [undoAnimation?.trigger, undoAnimation?.wasLeftSwipe]);
-
-  // Handle programmatic swipe (from button press)
-  useEffect(() => {
-    if (
-      programmaticSwipe &&
-      programmaticSwipe.trigger > 0 &&
-      programmaticSwipe.trigger !== lastProgrammaticSwipeRef.current &&
-      programmaticSwipe.imageId === imageId // Only animate if this is the target image
-    ) {
-      lastProgrammaticSwipeRef.current = programmaticSwipe.trigger;
-
-      // Animate the card off-screen
-      if (programmaticSwipe.isLeft) {
-        translateX.value = withSpring(-SCREEN_WIDTH * 2);
+        // Animate back to center with smooth timing (no bounce)
+        translateX.value = withTiming(0, RESTORE);
+        translateY.value = withTiming(0, RESTORE);
+        opacity.value = withTiming(1, RESTORE);
+        scale.value = withTiming(1, RESTORE);
+        isUndoing.value = withTiming(0, RESTORE, () => runOnJS(resolve)());
+      }),
+    reset: () =>
+      new Promise((resolve) => {
         translateY.value = withSpring(0);
-        opacity.value = withSpring(0);
-        runOnJS(Haptics.impactAsync)(Haptics.ImpactFeedbackStyle.Medium);
-        runOnJS(onSwipeLeft)();
-      } else {
-        translateX.value = withSpring(SCREEN_WIDTH * 2);
-        translateY.value = withSpring(0);
-        opacity.value = withSpring(0);
-        runOnJS(Haptics.impactAsync)(Haptics.ImpactFeedbackStyle.Medium);
-        runOnJS(onSwipeRight)();
-      }
-    }
-  }, [programmaticSwipe?.trigger, programmaticSwipe?.isLeft, programmaticSwipe?.imageId, imageId]);
+        opacity.value = withTiming(1, RESTORE);
+        scale.value = withSpring(1);
+        translateX.value = withSpring(0, undefined, () => runOnJS(resolve)());
+      }),
+  }));
 
   const panGesture = Gesture.Pan()
+    .enabled(swipeEnabled)
     .onUpdate((event) => {
       translateX.value = event.translationX;
-      translateY.value = event.translationY * 0.1; // Reduce vertical movement
-      const rotation = interpolate(
-        translateX.value,
-        [-SCREEN_WIDTH, 0, SCREEN_WIDTH],
-        [-15, 0, 15]
-      );
-      scale.value = withSpring(
-        1 - (Math.abs(translateX.value) / SCREEN_WIDTH) * 0.1
+      translateY.value = event.translationY;
+      const distance = Math.max(
+        Math.abs(translateX.value) / SCREEN_WIDTH,
+        Math.abs(translateY.value) / SCREEN_HEIGHT
       );
+      scale.value = withSpring(1 - distance * 0.1);
     })
     .onEnd((event) => {
-      const shouldSwipeLeft = event.translationX < -SWIPE_THRESHOLD;
-      const shouldSwipeRight = event.translationX > SWIPE_THRESHOLD;
-
-      if (shouldSwipeLeft) {
-        translateX.value = withSpring(-SCREEN_WIDTH * 2);
-        translateY.value = withSpring(event.translationY);
-        opacity.value = withSpring(0);
-        runOnJS(Haptics.impactAsync)(Haptics.ImpactFeedbackStyle.Medium);
-        runOnJS(onSwipeLeft)();
-      } else if (shouldSwipeRight) {
-        translateX.value = withSpring(SCREEN_WIDTH * 2);
-        translateY.value = withSpring(event.translationY);
+      const direction = swipeDirectionOf(
+        event.translationX,
+        event.translationY
+      );
+      if (direction) {
+        // Keep the drag's drift on the other axis
+        const target = offScreen(direction);
+        const horizontal = direction === "left" || direction === "right";
+        translateX.value = withSpring(
+          horizontal ? target.x : event.translationX
+        );
+        translateY.value = withSpring(
+          horizontal ? event.translationY : target.y
+        );
         opacity.value = withSpring(0);
         runOnJS(Haptics.impactAsync)(Haptics.ImpactFeedbackStyle.Medium);
-        runOnJS(onSwipeRight)();
+        runOnJS(onSwipe)(direction);
       } else {
         translateX.value = withSpring(0);
         translateY.value = withSpring(0);
@@ -175,52 +228,105 @@ export function SwipeableCard({
     };
   });
 
-  const leftOverlayStyle = useAnimatedStyle(() => {
-    const baseOpacity = interpolate(
-      translateX.value,
-      [-SWIPE_THRESHOLD, 0],
-      [1, 0]
-    );
-    // Hide overlay during undo animation
-    const opacity = isUndoing.value > 0 ? 0 : baseOpacity;
-    return { opacity };
-  });
-
-  const rightOverlayStyle = useAnimatedStyle(() => {
-    const baseOpacity = interpolate(
-      translateX.value,
-      [0, SWIPE_THRESHOLD],
-      [0, 1]
-    );
-    // Hide overlay during undo animation
-    const opacity = isUndoing.value > 0 ? 0 : baseOpacity;
-    return { opacity };
-  });
+  // Overlays are hidden during the undo animation
+  const leftOverlayStyle = useAnimatedStyle(() => ({
+    opacity:
+      isUndoing.value > 0
+        ? 0
+        : dragProgress(translateX.value, translateY.value, "left"),
+  }));
+  const rightOverlayStyle = useAnimatedStyle(() => ({
+    opacity:
+      isUndoing.value > 0
+        ? 0
+        : dragProgress(translateX.value, translateY.value, "right"),
+  }));
+  const upOverlayStyle = useAnimatedStyle(() => ({
+    opacity:
+      isUndoing.value > 0
+        ? 0
+        : dragProgress(translateX.value, translateY.value, "up"),
+  }));
+  const downOverlayStyle = useAnimatedStyle(() => ({
+    opacity:
+      isUndoing.value > 0
+        ? 0
+        : dragProgress(translateX.value, translateY.value, "down"),
+  }));
+  const overlayStyles = {
+    left: leftOverlayStyle,
+    right: rightOverlayStyle,
+    up: upOverlayStyle,
+    down: downOverlayStyle,
+  };
 
   return (
     <GestureDetector gesture={panGesture}>
       <Animated.View
         style={[styles.card, animatedCardStyle, { zIndex: 100 - index }]}
       >
-        <Image
-          source={{ uri: imageUri }}
-          style={styles.image}
-          contentFit="cover"
-        />
-        <Animated.View
-          style={[styles.overlay, styles.leftOverlay, leftOverlayStyle]}
-        >
-          <View style={styles.deleteBadge}>
-            <Animated.Text style={styles.badgeText}>DELETE</Animated.Text>
+        {mediaType === "video" && index === 0 ? (
+          // Only the top card plays, the cards behind show a still frame
+          <VideoPreview assetId={imageId} uri={imageUri} style={styles.image} />
+        ) : (
+          <Image
+            source={{ uri: imageUri }}
+            style={styles.image}
+            contentFit="cover"
+          />
+        )}
+        {mediaType === "video" && (
+          <View style={styles.durationBadge}>
+            <FontAwesome5 name="play" size={10} color="#fff" />
+            <Animated.Text style={styles.durationText}>
+              {formatDuration(duration)}
+            </Animated.Text>
+          </View>
+        )}
+        {series && (
+          <View style={styles.seriesBadge}>
+            <FontAwesome5 name="layer-group" size={10} color="#fff" />
+            <Animated.Text style={styles.durationText}>
+              {series.position + 1} of {series.ids.length}
+            </Animated.Text>
+          </View>
+        )}
+        {favorite && (
+          <View style={styles.favoriteMarker}>
+            <FontAwesome5 name="star" size={12} color="#FFB300" solid />
           </View>
-        </Animated.View>
-        <Animated.View
-          style={[styles.overlay, styles.rightOverlay, rightOverlayStyle]}
-        >
-          <View style={styles.keepBadge}>
-            <Animated.Text style={styles.badgeText}>KEEP</Animated.Text>
+        )}
+        {fileSize != null && (
+          <View style={styles.sizeBadge}>
+            <FontAwesome5 name="hdd" size={10} color="#fff" />
+            <Animated.Text style={styles.durationText}>
+              {formatBytes(fileSize)}
+            </Animated.Text>
           </View>
-        </Animated.View>
+        )}
+        {SWIPE_DIRECTIONS.map((direction) => {
+          const action = actions[direction];
+          const { overlayLabel, color } = SWIPE_ACTION_INFO[action];
+          return (
+            <Animated.View
+              key={direction}
+              style={[
+                styles.overlay,
+                // 30% opaque tint of the action's color
+                { backgroundColor: `${color}4D` },
+                overlayStyles[direction],
+              ]}
+            >
+              <View style={[styles.actionBadge, { backgroundColor: color }]}>
+                <Animated.Text style={styles.badgeText}>
+                  {action === "favorite" && favorite
+                    ? "UNFAVORITE"
+                    : overlayLabel}
+                </Animated.Text>
+              </View>
+            </Animated.View>
+          );
+        })}
       </Animated.View>
     </GestureDetector>
   );
@@ -256,22 +362,7 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
-  leftOverlay: {
-    backgroundColor: "rgba(255, 0, 0, 0.3)",
-  },
-  rightOverlay: {
-    backgroundColor: "rgba(0, 255, 0, 0.3)",
-  },
-  deleteBadge: {
-    backgroundColor: "#ff4444",
-    paddingHorizontal: 30,
-    paddingVertical: 15,
-    borderRadius: 10,
-    borderWidth: 3,
-    borderColor: "#fff",
-  },
-  keepBadge: {
-    backgroundColor: "#44ff44",
+  actionBadge: {
     paddingHorizontal: 30,
     paddingVertical: 15,
     borderRadius: 10,
@@ -283,4 +374,53 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: "bold",
   },
+  durationBadge: {
+    position: "absolute",
+    top: 12,
+    right: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  seriesBadge: {
+    position: "absolute",
+    top: 12,
+    left: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  sizeBadge: {
+    position: "absolute",
+    bottom: 12,
+    left: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  favoriteMarker: {
+    position: "absolute",
+    bottom: 12,
+    right: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    padding: 8,
+    borderRadius: 16,
+  },
+  durationText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
 });
@@ -0,0 +1,53 @@
+import * as MediaLibrary from "expo-media-library";
+import { useVideoPlayer, VideoView } from "expo-video";
+import { useEffect, useState } from "react";
+import { StyleProp, ViewStyle } from "react-native";
+
+type VideoPreviewProps = {
+  assetId: string;
+  uri: string;
+  style?: StyleProp<ViewStyle>;
+};
+
+// Muted, looping preview of a media library video
+export function VideoPreview({ assetId, uri, style }: VideoPreviewProps) {
+  const [playableUri, setPlayableUri] = useState<string | null>(null);
+
+  // iOS returns ph:// URIs that the player can't open, so resolve the local file
+  useEffect(() => {
+    let cancelled = false;
+    // Previewing shouldn't download the whole video from iCloud
+    MediaLibrary.getAssetInfoAsync(assetId, {
+      shouldDownloadFromNetwork: false,
+    })
+      .then((info) => {
+        if (!cancelled) {
+          setPlayableUri(info.localUri ?? uri);
+        }
+      })
+      .catch((error) => {
+        console.error("Error resolving video uri:", error);
+        if (!cancelled) {
+          setPlayableUri(uri);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [assetId, uri]);
+
+  const player = useVideoPlayer(playableUri, (p) => {
+    p.loop = true;
+    p.muted = true;
+    p.play();
+  });
+
+  return (
+    <VideoView
+      player={player}
+      style={style}
+      contentFit="cover"
+      nativeControls={false}
+    />
+  );
+}
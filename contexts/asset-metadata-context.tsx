@@ -0,0 +1,257 @@
+import { File } from "expo-file-system";
+import * as MediaLibrary from "expo-media-library";
+import React, {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+// Details that need a getAssetInfoAsync call per asset. Fields the library
+// listing already returns live on ImageAsset.
+export type AssetMetadata = {
+  // Bytes, null when the file isn't available locally (e.g. in iCloud)
+  fileSize: number | null;
+  location: MediaLibrary.Location | null;
+  isFavorite: boolean;
+  localUri: string | null;
+};
+
+// Read-only view of the cache. A new view is published whenever metadata
+// lands, so it can be a hook dependency, but the cache itself isn't copied.
+export type AssetMetadataView = {
+  // Bumped with every publish
+  version: number;
+  get: (assetId: string) => AssetMetadata | undefined;
+  // True when the last fetch for the asset failed. Asking for it again
+  // retries.
+  hasFailed: (assetId: string) => boolean;
+};
+
+type AssetMetadataState = {
+  metadata: AssetMetadataView;
+  getMetadata: (assetId: string) => AssetMetadata | undefined;
+  // Queue a background fetch for assets not cached yet, retrying failed ones
+  requestMetadata: (assetIds: string[]) => void;
+  // Fetch and wait for metadata of the given assets. onProgress is called
+  // with the number of assets done after each fetch.
+  loadMetadata: (
+    assetIds: string[],
+    onProgress?: (done: number, total: number) => void
+  ) => Promise<Map<string, AssetMetadata>>;
+  invalidateMetadata: (assetIds: string[]) => void;
+};
+
+const AssetMetadataContext = createContext<AssetMetadataState | undefined>(
+  undefined
+);
+
+// Number of getAssetInfoAsync calls in flight at once
+const FETCH_CONCURRENCY = 4;
+
+const readFileSize = (localUri: string | undefined): number | null => {
+  if (!localUri) {
+    return null;
+  }
+  try {
+    const size = new File(localUri).size;
+    return size > 0 ? size : null;
+  } catch {
+    return null;
+  }
+};
+
+const fetchAssetMetadata = async (assetId: string): Promise<AssetMetadata> => {
+  // Don't trigger iCloud downloads just to read metadata
+  const info = await MediaLibrary.getAssetInfoAsync(assetId, {
+    shouldDownloadFromNetwork: false,
+  });
+  return {
+    fileSize: readFileSize(info.localUri),
+    location: info.location ?? null,
+    isFavorite: info.isFavorite ?? false,
+    localUri: info.localUri ?? null,
+  };
+};
+
+export function AssetMetadataProvider({ children }: { children: ReactNode }) {
+  // In-memory cache, filled lazily as screens ask for assets
+  const cacheRef = useRef(new Map<string, AssetMetadata>());
+  const pendingRef = useRef(new Map<string, Promise<AssetMetadata | null>>());
+  // Assets whose last fetch failed, until they are fetched again
+  const failedRef = useRef(new Set<string>());
+  const [version, setVersion] = useState(0);
+  const publishScheduledRef = useRef(false);
+
+  const metadata = useMemo<AssetMetadataView>(
+    () => ({
+      version,
+      get: (assetId) => cacheRef.current.get(assetId),
+      hasFailed: (assetId) => failedRef.current.has(assetId),
+    }),
+    [version]
+  );
+
+  // Publish the cache once per batch of fetches instead of once per asset
+  const schedulePublish = useCallback(() => {
+    if (publishScheduledRef.current) {
+      return;
+    }
+    publishScheduledRef.current = true;
+    setTimeout(() => {
+      publishScheduledRef.current = false;
+      setVersion((prev) => prev + 1);
+    }, 100);
+  }, []);
+
+  const fetchOne = useCallback(
+    (assetId: string) => {
+      const pending = pendingRef.current.get(assetId);
+      if (pending) {
+        return pending;
+      }
+      failedRef.current.delete(assetId);
+      const promise = fetchAssetMetadata(assetId)
+        .then((result) => {
+          cacheRef.current.set(assetId, result);
+          schedulePublish();
+          return result;
+        })
+        .catch((error) => {
+          console.error("Error loading asset metadata:", error);
+          failedRef.current.add(assetId);
+          schedulePublish();
+          return null;
+        })
+        .finally(() => {
+          pendingRef.current.delete(assetId);
+        });
+      pendingRef.current.set(assetId, promise);
+      return promise;
+    },
+    [schedulePublish]
+  );
+
+  const loadMetadata = useCallback(
+    async (
+      assetIds: string[],
+      onProgress?: (done: number, total: number) => void
+    ) => {
+      const missing = assetIds.filter((id) => !cacheRef.current.has(id));
+      let nextIndex = 0;
+      let done = assetIds.length - missing.length;
+      const worker = async () => {
+        while (nextIndex < missing.length) {
+          await fetchOne(missing[nextIndex++]);
+          onProgress?.(++done, assetIds.length);
+        }
+      };
+      await Promise.all(
+        Array.from(
+          { length: Math.min(FETCH_CONCURRENCY, missing.length) },
+          worker
+        )
+      );
+
+      const result = new Map<string, AssetMetadata>();
+      assetIds.forEach((id) => {
+        const cached = cacheRef.current.get(id);
+        if (cached) {
+          result.set(id, cached);
+        }
+      });
+      return result;
+    },
+    [fetchOne]
+  );
+
+  const requestMetadata = useCallback(
+    (assetIds: string[]) => {
+      loadMetadata(assetIds);
+    },
+    [loadMetadata]
+  );
+
+  const getMetadata = useCallback(
+    (assetId: string) => cacheRef.current.get(assetId),
+    []
+  );
+
+  const invalidateMetadata = useCallback(
+    (assetIds: string[]) => {
+      assetIds.forEach((id) => {
+        cacheRef.current.delete(id);
+        failedRef.current.delete(id);
+      });
+      schedulePublish();
+    },
+    [schedulePublish]
+  );
+
+  // Edited or deleted assets must be fetched again
+  useEffect(() => {
+    const subscription = MediaLibrary.addListener((event) => {
+      if (!event.hasIncrementalChanges) {
+        cacheRef.current.clear();
+        failedRef.current.clear();
+        schedulePublish();
+        return;
+      }
+      invalidateMetadata(
+        [...(event.updatedAssets ?? []), ...(event.deletedAssets ?? [])].map(
+          (asset) => asset.id
+        )
+      );
+    });
+    return () => subscription.remove();
+  }, [invalidateMetadata, schedulePublish]);
+
+  return (
+    <AssetMetadataContext.Provider
+      value={{
+        metadata,
+        getMetadata,
+        requestMetadata,
+        loadMetadata,
+        invalidateMetadata,
+      }}
+    >
+      {children}
+    </AssetMetadataContext.Provider>
+  );
+}
+
+export function useAssetMetadataContext() {
+  const context = useContext(AssetMetadataContext);
+  if (context === undefined) {
+    throw new Error(
+      "useAssetMetadataContext must be used within an AssetMetadataProvider"
+    );
+  }
+  return context;
+}
+
+// Metadata of one asset, fetched in the background on first use. undefined
+// while loading, null when it couldn't be read. A failed fetch is retried the
+// next time the asset is asked for.
+export function useAssetMetadata(
+  assetId: string | undefined
+): AssetMetadata | null | undefined {
+  const { metadata, requestMetadata } = useAssetMetadataContext();
+  const assetMetadata = assetId ? metadata.get(assetId) : undefined;
+
+  useEffect(() => {
+    if (assetId && !assetMetadata) {
+      requestMetadata([assetId]);
+    }
+  }, [assetId, assetMetadata, requestMetadata]);
+
+  if (assetId && !assetMetadata && metadata.hasFailed(assetId)) {
+    return null;
+  }
+  return assetMetadata;
+}
@@ -1,4 +1,3 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as MediaLibrary from "expo-media-library";
 import React, {
   createContext,
@@ -6,22 +5,181 @@ import React, {
   useCallback,
   useContext,
   useEffect,
+  useMemo,
+  useRef,
   useState,
 } from "react";
-import { Alert } from "react-native";
+import { Alert, AppState } from "react-native";
+import { useAssetMetadataContext } from "@/contexts/asset-metadata-context";
+import { DecisionMap, useDecisionStore } from "@/hooks/use-decision-store";
+import { useFavorites } from "@/hooks/use-favorites";
+import { HistoryEntry, useSwipeHistory } from "@/hooks/use-swipe-history";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TRASH_RETENTION_OPTIONS,
+  TrashMap,
+  useTrash,
+} from "@/hooks/use-trash";
+import { createAsyncSwipeStorage } from "@/storage/async-swipe-storage";
+import { createAssetCache } from "@/storage/asset-cache";
+import { Decision } from "@/storage/persisted-state";
+import { SwipeStorage } from "@/storage/swipe-storage";
+import {
+  ALL_TIME_SCOPE,
+  DateRange,
+  DAY_MS,
+  isSameScope,
+  parseScope,
+  resolveScopeRanges,
+  ReviewScope,
+} from "@/utils/review-scope";
+import { deleteAssetsInBatches, DeleteResult } from "@/utils/delete-assets";
+import {
+  isReviewQueue,
+  isScreenshot,
+  isScreenshotAlbum,
+  ReviewQueue,
+  SCREENSHOT_AGE_OPTIONS,
+} from "@/utils/screenshots";
+import {
+  DEFAULT_SERIES_WINDOW_SECONDS,
+  SERIES_WINDOW_OPTIONS,
+} from "@/utils/series";
+import {
+  createShuffleSeed,
+  isSortOrder,
+  isStreamedSortOrder,
+  seededShuffle,
+  SortOrder,
+} from "@/utils/sort-order";
+import {
+  parseSwipeActionMap,
+  SwipeAction,
+  SwipeActionMap,
+  SwipeDirection,
+} from "@/utils/swipe-actions";
+
+export type MediaKind = "photo" | "video";
+
+// Which media types are shown in the deck and gallery
+export type MediaFilter = "photos" | "videos" | "all";
 
 export type ImageAsset = {
   id: string;
   uri: string;
   creationTime: number;
+  mediaType: MediaKind;
+  // Duration in seconds, 0 for photos
+  duration: number;
+  filename: string;
+  width: number;
+  height: number;
+  modificationTime: number;
+  // Only reported on iOS
+  mediaSubtypes: MediaLibrary.MediaSubtype[];
+  // Only reported on Android
+  albumId: string | null;
+  // Bytes, null until measured; the "largest" order measures every file
+  fileSize: number | null;
+};
+
+// "limited" means the user only shared selected photos (iOS 14+, Android 14+)
+export type AccessPrivileges = "all" | "limited" | "none";
+
+export type AlbumSummary = {
+  id: string;
+  title: string;
+  assetCount: number;
+  // Filled by the system (iOS), so nothing can be added to it
+  smart: boolean;
 };
 
 type ImageSwipeState = {
-  markedForDeletion: Set<string>;
-  markedForKeep: Set<string>;
+  // One decision per asset; the sets below are views of it
+  decisions: DecisionMap;
+  markedForDeletion: ReadonlySet<string>;
+  markedForKeep: ReadonlySet<string>;
+  // Set aside to decide on later, reviewed in the "later" queue
+  markedForLater: ReadonlySet<string>;
+  // Favorited while reviewing
+  favorites: ReadonlySet<string>;
   images: ImageAsset[];
   imagesLoading: boolean;
+  totalCount: number;
+  hasMoreImages: boolean;
+  loadingMoreImages: boolean;
   permissionGranted: boolean;
+  accessPrivileges: AccessPrivileges;
+  canAskPermissionAgain: boolean;
+  retryPermission: () => Promise<void>;
+  presentLimitedAccessPicker: () => Promise<void>;
+  mediaFilter: MediaFilter;
+  setMediaFilter: (filter: MediaFilter) => Promise<void>;
+  albums: AlbumSummary[];
+  // null means the whole library
+  selectedAlbumId: string | null;
+  selectAlbum: (albumId: string | null) => Promise<void>;
+  refreshAlbums: () => Promise<void>;
+  reviewScope: ReviewScope;
+  setReviewScope: (scope: ReviewScope) => Promise<void>;
+  sortOrder: SortOrder;
+  setSortOrder: (order: SortOrder) => Promise<void>;
+  // Pick a new random order for the "shuffle" sort
+  reshuffle: () => Promise<void>;
+  // Progress of measuring file sizes for the "largest" sort, null otherwise
+  sortProgress: { done: number; total: number } | null;
+  // Only show images without a decision in the deck. Images set aside for
+  // later still show in the "later" queue.
+  unreviewedOnly: boolean;
+  setUnreviewedOnly: (enabled: boolean) => Promise<void>;
+  reviewQueue: ReviewQueue;
+  setReviewQueue: (queue: ReviewQueue) => Promise<void>;
+  // The screenshot queue leaves out captures newer than this, 0 shows all
+  screenshotMinAgeDays: number;
+  setScreenshotMinAgeDays: (days: number) => Promise<void>;
+  // Committed deletions wait here, hidden from the deck, until purged
+  trash: TrashMap;
+  trashRetentionDays: number;
+  setTrashRetentionDays: (days: number) => Promise<void>;
+  moveToTrash: (imageIds: string[]) => Promise<void>;
+  restoreFromTrash: (imageIds: string[]) => Promise<void>;
+  // Delete from the library for good, a batch at a time. Only the assets
+  // that were actually deleted leave the trash.
+  purgeFromTrash: (
+    imageIds: string[],
+    options?: {
+      onProgress?: (done: number, total: number) => void;
+      signal?: AbortSignal;
+    }
+  ) => Promise<DeleteResult>;
+  // Shots this close together form a series, 0 turns series off
+  seriesWindowSeconds: number;
+  setSeriesWindowSeconds: (seconds: number) => Promise<void>;
+  // What each swipe direction and its button does
+  swipeActionMap: SwipeActionMap;
+  setSwipeAction: (
+    direction: SwipeDirection,
+    action: SwipeAction
+  ) => Promise<void>;
+  // Album the "add to album" action adds to, null until one is picked
+  swipeActionAlbumId: string | null;
+  setSwipeActionAlbumId: (albumId: string | null) => Promise<void>;
+  // Steps that can be undone, oldest first
+  history: readonly HistoryEntry[];
+  // Undone steps, the next one to redo last
+  redoHistory: readonly HistoryEntry[];
+  // Make decisions as one undoable step taken on imageId, optionally
+  // toggling its favorite flag too
+  recordDecisions: (
+    imageId: string,
+    decisions: { imageId: string; decision: Decision | null }[],
+    options?: { favorite?: boolean }
+  ) => HistoryEntry;
+  undoDecision: () => HistoryEntry | undefined;
+  redoDecision: () => HistoryEntry | undefined;
+  // Undo every step from history[index] on, returning them latest first
+  undoDecisionsTo: (index: number) => HistoryEntry[];
+  forgetHistory: (imageIds: string[]) => void;
   markForDeletion: (imageId: string) => void;
   markForKeep: (imageId: string) => void;
   unmarkForDeletion: (imageId: string) => void;
@@ -29,166 +187,905 @@ type ImageSwipeState = {
   clearAll: () => void;
   clearDeletion: () => void;
   refreshImages: () => Promise<void>;
+  loadMoreImages: () => Promise<void>;
   removeFromPersistedKeep: (imageIds: string[]) => Promise<void>;
   removeFromPersistedDeletion: (imageIds: string[]) => Promise<void>;
+  // Number of decisions dropped by stale-ID cleanups since the app started
+  prunedCount: number;
   saveLastViewedImage: (imageId: string) => Promise<void>;
   loadLastViewedImage: () => Promise<string | null>;
 };
 
 const ImageSwipeContext = createContext<ImageSwipeState | undefined>(undefined);
 
-const KEPT_IMAGES_STORAGE_KEY = "@swipe:kept_images";
-const DELETION_IMAGES_STORAGE_KEY = "@swipe:deletion_images";
 const LAST_VIEWED_IMAGE_KEY = "@swipe:last_viewed_image";
+const MEDIA_FILTER_KEY = "@swipe:media_filter";
+const SELECTED_ALBUM_KEY = "@swipe:selected_album";
+const REVIEW_SCOPE_KEY = "@swipe:review_scope";
+const SORT_ORDER_KEY = "@swipe:sort_order";
+const SHUFFLE_SEED_KEY = "@swipe:shuffle_seed";
+const UNREVIEWED_ONLY_KEY = "@swipe:unreviewed_only";
+const SERIES_WINDOW_KEY = "@swipe:series_window";
+const REVIEW_QUEUE_KEY = "@swipe:review_queue";
+const SCREENSHOT_MIN_AGE_KEY = "@swipe:screenshot_min_age";
+const TRASH_RETENTION_KEY = "@swipe:trash_retention";
+const SWIPE_ACTION_MAP_KEY = "@swipe:action_map";
+const SWIPE_ACTION_ALBUM_KEY = "@swipe:action_album";
+
+// Last viewed image is remembered separately for every album
+const lastViewedImageKey = (albumId: string | null) =>
+  albumId ? `${LAST_VIEWED_IMAGE_KEY}:${albumId}` : LAST_VIEWED_IMAGE_KEY;
+
+// Number of assets requested from the media library per page
+const PAGE_SIZE = 500;
+// Larger pages when only collecting asset IDs
+const ID_PAGE_SIZE = 5000;
+
+const MEDIA_TYPES_BY_FILTER: Record<
+  MediaFilter,
+  MediaLibrary.MediaTypeValue[]
+> = {
+  photos: [MediaLibrary.MediaType.photo],
+  videos: [MediaLibrary.MediaType.video],
+  all: [MediaLibrary.MediaType.photo, MediaLibrary.MediaType.video],
+};
+
+const isMediaFilter = (value: string | null): value is MediaFilter =>
+  value === "photos" || value === "videos" || value === "all";
+
+const toImageAsset = (asset: MediaLibrary.Asset): ImageAsset => ({
+  id: asset.id,
+  uri: asset.uri,
+  creationTime: asset.creationTime,
+  mediaType:
+    asset.mediaType === MediaLibrary.MediaType.video ? "video" : "photo",
+  duration: asset.duration ?? 0,
+  filename: asset.filename,
+  width: asset.width,
+  height: asset.height,
+  modificationTime: asset.modificationTime,
+  mediaSubtypes: asset.mediaSubtypes ?? [],
+  albumId: asset.albumId ?? null,
+  fileSize: null,
+});
+
+// What the deck is built from
+type LibraryQuery = {
+  filter: MediaFilter;
+  albumId: string | null;
+  ranges: DateRange[];
+  sortOrder: SortOrder;
+  queue: ReviewQueue;
+  screenshotMinAgeDays: number;
+};
+
+// Only the whole library in date order can be paged through, everything else
+// is loaded in full and filtered or sorted in memory
+const isStreamedQuery = (query: LibraryQuery) =>
+  query.queue === "library" && isStreamedSortOrder(query.sortOrder);
+
+// Position within a query; ranges are paged through one after another
+type PageCursor = {
+  rangeIndex: number;
+  after?: string;
+};
+
+// Fetch one page of assets, newest first (like phone gallery) unless the
+// query asks for oldest first
+const fetchImagesPage = async (
+  query: LibraryQuery,
+  cursor: PageCursor,
+  first: number = PAGE_SIZE
+) => {
+  const page = await MediaLibrary.getAssetsAsync({
+    mediaType: MEDIA_TYPES_BY_FILTER[query.filter],
+    album: query.albumId ?? undefined,
+    sortBy: [[MediaLibrary.SortBy.creationTime, query.sortOrder === "oldest"]],
+    first,
+    after: cursor.after,
+    ...query.ranges[cursor.rangeIndex],
+  });
+
+  // Move on to the next range once this one is exhausted
+  let next: PageCursor | undefined;
+  if (page.hasNextPage) {
+    next = { rangeIndex: cursor.rangeIndex, after: page.endCursor };
+  } else if (cursor.rangeIndex + 1 < query.ranges.length) {
+    next = { rangeIndex: cursor.rangeIndex + 1 };
+  }
+
+  return {
+    assets: page.assets.map(toImageAsset),
+    next,
+    totalCount: page.totalCount,
+  };
+};
+
+// Fetch every asset of a query, for orders that are sorted in memory
+const fetchAllImages = async (query: LibraryQuery) => {
+  const all: ImageAsset[] = [];
+  let cursor: PageCursor | undefined = { rangeIndex: 0 };
+  while (cursor) {
+    const page = await fetchImagesPage(query, cursor, ID_PAGE_SIZE);
+    all.push(...page.assets);
+    cursor = page.next;
+  }
+  return all;
+};
+
+// IDs of the assets in screenshot and screen recording albums
+const fetchScreenshotAlbumAssetIds = async (query: LibraryQuery) => {
+  const albums = (
+    await MediaLibrary.getAlbumsAsync({ includeSmartAlbums: true })
+  ).filter((album) => isScreenshotAlbum(album.title));
+  const ids = new Set<string>();
+  for (const album of albums) {
+    let after: string | undefined;
+    do {
+      const page = await MediaLibrary.getAssetsAsync({
+        mediaType: MEDIA_TYPES_BY_FILTER[query.filter],
+        album: album.id,
+        first: ID_PAGE_SIZE,
+        after,
+      });
+      page.assets.forEach((asset) => ids.add(asset.id));
+      after = page.hasNextPage ? page.endCursor : undefined;
+    } while (after);
+  }
+  return ids;
+};
+
+// Keep the screen captures that are old enough for the screenshot queue
+const filterScreenshots = async (images: ImageAsset[], query: LibraryQuery) => {
+  const albumAssetIds = await fetchScreenshotAlbumAssetIds(query);
+  const cutoff = Date.now() - query.screenshotMinAgeDays * DAY_MS;
+  return images.filter(
+    (img) => img.creationTime <= cutoff && isScreenshot(img, albumAssetIds)
+  );
+};
+
+// Put images together by album, albums in title order. Images keep their
+// order within an album, and ones that are in no album come last.
+const groupByAlbum = async (images: ImageAsset[], query: LibraryQuery) => {
+  if (query.albumId) {
+    return images;
+  }
+  // Smart albums like "Recents" would swallow everything, so skip them
+  const albums = (await MediaLibrary.getAlbumsAsync())
+    .filter((album) => album.assetCount > 0)
+    .sort((a, b) => a.title.localeCompare(b.title));
 
-export function ImageSwipeProvider({ children }: { children: ReactNode }) {
-  const [markedForDeletion, setMarkedForDeletion] = useState<Set<string>>(
-    new Set()
+  // Position of the first album each asset is in
+  const groupById = new Map<string, number>();
+  if (images.every((img) => img.albumId !== null)) {
+    // Android reports the album of every asset
+    const positionByAlbum = new Map(albums.map((album, i) => [album.id, i]));
+    images.forEach((img) => {
+      const position = positionByAlbum.get(img.albumId ?? "");
+      if (position !== undefined) {
+        groupById.set(img.id, position);
+      }
+    });
+  } else {
+    // iOS needs a listing per album
+    for (const [position, album] of albums.entries()) {
+      let after: string | undefined;
+      do {
+        const page = await MediaLibrary.getAssetsAsync({
+          mediaType: MEDIA_TYPES_BY_FILTER[query.filter],
+          album: album.id,
+          first: ID_PAGE_SIZE,
+          after,
+        });
+        page.assets.forEach((asset) => {
+          if (!groupById.has(asset.id)) {
+            groupById.set(asset.id, position);
+          }
+        });
+        after = page.hasNextPage ? page.endCursor : undefined;
+      } while (after);
+    }
+  }
+  const groupOf = (img: ImageAsset) => groupById.get(img.id) ?? albums.length;
+  // Array sort is stable, so the date order within each album is kept
+  return [...images].sort((a, b) => groupOf(a) - groupOf(b));
+};
+
+// Whether an asset belongs to a query, undefined when it can't be told locally
+// (album membership is only reported on Android)
+const matchesQuery = (
+  asset: MediaLibrary.Asset,
+  query: LibraryQuery
+): boolean | undefined => {
+  if (!MEDIA_TYPES_BY_FILTER[query.filter].includes(asset.mediaType)) {
+    return false;
+  }
+  const inRange = query.ranges.some(
+    (range) =>
+      (range.createdAfter === undefined ||
+        asset.creationTime > range.createdAfter) &&
+      (range.createdBefore === undefined ||
+        asset.creationTime < range.createdBefore)
   );
-  const [markedForKeep, setMarkedForKeep] = useState<Set<string>>(new Set());
+  if (!inRange) {
+    return false;
+  }
+  if (query.albumId) {
+    return asset.albumId === undefined
+      ? undefined
+      : asset.albumId === query.albumId;
+  }
+  return true;
+};
+
+// Collect the ID of every asset in the library, ignoring the deck's filters
+const fetchAllAssetIds = async () => {
+  const ids = new Set<string>();
+  let after: string | undefined;
+  do {
+    const page = await MediaLibrary.getAssetsAsync({
+      mediaType: MEDIA_TYPES_BY_FILTER.all,
+      first: ID_PAGE_SIZE,
+      after,
+    });
+    page.assets.forEach((asset) => ids.add(asset.id));
+    after = page.hasNextPage ? page.endCursor : undefined;
+  } while (after);
+  return ids;
+};
+
+// Count matching assets across all ranges of a query
+const countImages = async (query: LibraryQuery) => {
+  const counts = await Promise.all(
+    query.ranges.map((range) =>
+      MediaLibrary.getAssetsAsync({
+        mediaType: MEDIA_TYPES_BY_FILTER[query.filter],
+        album: query.albumId ?? undefined,
+        first: 1,
+        ...range,
+      }).then((page) => page.totalCount)
+    )
+  );
+  return counts.reduce((sum, count) => sum + count, 0);
+};
+
+// Used when no storage is passed to the provider
+const defaultStorage = createAsyncSwipeStorage();
+
+// File sizes measured for the "largest" order
+const sizeCache = createAssetCache(
+  "file-sizes.json",
+  "file size",
+  (value): value is number => typeof value === "number"
+);
+
+export function ImageSwipeProvider({
+  children,
+  storage = defaultStorage,
+}: {
+  children: ReactNode;
+  // Where decisions and settings are kept
+  storage?: SwipeStorage;
+}) {
+  const {
+    decisions,
+    update: updateDecisions,
+    hydrate: hydrateDecisions,
+    flush: flushDecisions,
+    getDecisions,
+  } = useDecisionStore(storage);
+  const {
+    favorites,
+    hydrate: hydrateFavorites,
+    toggle: toggleFavorite,
+    remove: removeFavorites,
+    getFavorites,
+  } = useFavorites(storage);
+  const {
+    undoStack: history,
+    redoStack: redoHistory,
+    hydrate: hydrateHistory,
+    record: recordDecisions,
+    undo: undoDecision,
+    redo: redoDecision,
+    undoTo: undoDecisionsTo,
+    forget: forgetHistory,
+  } = useSwipeHistory(storage, getDecisions, updateDecisions, toggleFavorite);
+  const markedForDeletion = useMemo(
+    () =>
+      new Set(
+        [...decisions].filter(([, d]) => d === "delete").map(([id]) => id)
+      ),
+    [decisions]
+  );
+  const markedForKeep = useMemo(
+    () =>
+      new Set([...decisions].filter(([, d]) => d === "keep").map(([id]) => id)),
+    [decisions]
+  );
+  const markedForLater = useMemo(
+    () =>
+      new Set([...decisions].filter(([, d]) => d === "skip").map(([id]) => id)),
+    [decisions]
+  );
+  const {
+    trash,
+    hydrate: hydrateTrash,
+    add: addToTrash,
+    remove: removeFromTrash,
+    getTrash,
+  } = useTrash(storage);
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState(
+    DEFAULT_TRASH_RETENTION_DAYS
+  );
+  const trashRetentionDaysRef = useRef(DEFAULT_TRASH_RETENTION_DAYS);
+  // Everything loaded from the library, trashed assets included
   const [images, setImages] = useState<ImageAsset[]>([]);
   const [imagesLoading, setImagesLoading] = useState(true);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMoreImages, setHasMoreImages] = useState(false);
+  const [loadingMoreImages, setLoadingMoreImages] = useState(false);
   const [permissionGranted, setPermissionGranted] = useState(false);
+  const [accessPrivileges, setAccessPrivileges] =
+    useState<AccessPrivileges>("none");
+  const accessPrivilegesRef = useRef<AccessPrivileges | null>(null);
+  const [canAskPermissionAgain, setCanAskPermissionAgain] = useState(true);
+  const [mediaFilter, setMediaFilterState] = useState<MediaFilter>("photos");
+  const mediaFilterRef = useRef<MediaFilter>("photos");
+  const [albums, setAlbums] = useState<AlbumSummary[]>([]);
+  const [selectedAlbumId, setSelectedAlbumId] = useState<string | null>(null);
+  const selectedAlbumIdRef = useRef<string | null>(null);
+  const [reviewScope, setReviewScopeState] =
+    useState<ReviewScope>(ALL_TIME_SCOPE);
+  const reviewScopeRef = useRef<ReviewScope>(ALL_TIME_SCOPE);
+  const [sortOrder, setSortOrderState] = useState<SortOrder>("newest");
+  const sortOrderRef = useRef<SortOrder>("newest");
+  const shuffleSeedRef = useRef(0);
+  const [sortProgress, setSortProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [unreviewedOnly, setUnreviewedOnlyState] = useState(false);
+  const [seriesWindowSeconds, setSeriesWindowSecondsState] = useState(
+    DEFAULT_SERIES_WINDOW_SECONDS
+  );
+  const [swipeActionMap, setSwipeActionMap] = useState(
+    parseSwipeActionMap(null)
+  );
+  const [swipeActionAlbumId, setSwipeActionAlbumIdState] = useState<
+    string | null
+  >(null);
+  const [reviewQueue, setReviewQueueState] = useState<ReviewQueue>("library");
+  const reviewQueueRef = useRef<ReviewQueue>("library");
+  const [screenshotMinAgeDays, setScreenshotMinAgeDaysState] = useState(0);
+  const screenshotMinAgeDaysRef = useRef(0);
+  const { loadMetadata } = useAssetMetadataContext();
+  // Query of the last full load, reused when loading more pages
+  const queryRef = useRef<LibraryQuery | null>(null);
+  // Cursor of the next page, undefined when nothing more to load
+  const nextCursorRef = useRef<PageCursor | undefined>(undefined);
+  const loadingMoreRef = useRef(false);
+  // Incremented on every full reload so stale page results are discarded
+  const loadGenerationRef = useRef(0);
+  // Set when the library changes during a load, which may have missed it
+  const libraryChangedRef = useRef(false);
 
-  // Load persisted kept images from storage
-  const loadPersistedKeptImages = async (): Promise<Set<string>> => {
+  const [prunedCount, setPrunedCount] = useState(0);
+  const pruningRef = useRef(false);
+
+  // Trashed assets are still in the library but are no longer reviewed
+  const visibleImages = useMemo(
+    () =>
+      trash.size === 0 ? images : images.filter((img) => !trash.has(img.id)),
+    [images, trash]
+  );
+
+  // Load persisted decisions, migrating older formats
+  const loadPersistedDecisions = async () => {
     try {
-      const stored = await AsyncStorage.getItem(KEPT_IMAGES_STORAGE_KEY);
-      if (stored) {
-        const keptIds = JSON.parse(stored) as string[];
-        return new Set(keptIds);
+      const { recovered, readOnly } = await hydrateDecisions();
+      if (readOnly) {
+        Alert.alert(
+          "Update Required",
+          "Your saved choices were made by a newer version of the app and can't be read by this one. Update the app to get them back. Until then, nothing you do will be saved."
+        );
+      } else if (recovered) {
+        Alert.alert(
+          "Saved Progress Damaged",
+          "Some of your saved choices couldn't be read and were skipped. Everything that could be recovered has been kept."
+        );
       }
     } catch (error) {
-      console.error("Error loading persisted kept images:", error);
+      console.error("Error loading persisted state:", error);
     }
-    return new Set<string>();
   };
 
-  // Load persisted deletion images from storage
-  const loadPersistedDeletionImages = async (): Promise<Set<string>> => {
+  // Remove keep decisions for the given images and write them out
+  const removeFromPersistedKeep = async (imageIds: string[]) => {
+    updateDecisions({ type: "forget", imageIds, decision: "keep" });
+    await flushDecisions();
+  };
+
+  // Remove deletion marks for the given images and write them out
+  const removeFromPersistedDeletion = async (imageIds: string[]) => {
+    updateDecisions({ type: "forget", imageIds, decision: "delete" });
+    await flushDecisions();
+  };
+
+  // Drop all decisions for the given assets
+  const forgetDecisions = async (imageIds: string[]) => {
+    updateDecisions({ type: "forget", imageIds });
+    await flushDecisions();
+  };
+
+  // Prune decisions and trash entries whose asset no longer exists in the
+  // library
+  const pruneStaleDecisions = async () => {
+    // With limited access unshared photos look deleted, so leave them alone
+    if (pruningRef.current || accessPrivilegesRef.current !== "all") {
+      return;
+    }
+    if (
+      getDecisions().size === 0 &&
+      getTrash().size === 0 &&
+      getFavorites().size === 0
+    ) {
+      return;
+    }
+    pruningRef.current = true;
+    // Assets added while the library is listed are missing from the listing,
+    // so only what was known beforehand can be pruned
+    const decidedIds = [...getDecisions().keys()];
+    const trashedIds = [...getTrash().keys()];
+    const favoriteIds = [...getFavorites()];
     try {
-      const stored = await AsyncStorage.getItem(DELETION_IMAGES_STORAGE_KEY);
-      if (stored) {
-        const deletionIds = JSON.parse(stored) as string[];
-        return new Set(deletionIds);
+      const existingIds = await fetchAllAssetIds();
+      const staleIds = decidedIds.filter((id) => !existingIds.has(id));
+      if (staleIds.length > 0) {
+        await forgetDecisions(staleIds);
+        setPrunedCount((prev) => prev + staleIds.length);
       }
+      await removeFromTrash(trashedIds.filter((id) => !existingIds.has(id)));
+      removeFavorites(favoriteIds.filter((id) => !existingIds.has(id)));
     } catch (error) {
-      console.error("Error loading persisted deletion images:", error);
+      console.error("Error pruning stale decisions:", error);
+    } finally {
+      pruningRef.current = false;
     }
-    return new Set<string>();
   };
 
-  // Save kept images to storage
-  const savePersistedKeptImages = async (keptIds: Set<string>) => {
+  // Save last viewed image ID for the selected album
+  const saveLastViewedImage = useCallback(async (imageId: string) => {
     try {
-      const idsArray = Array.from(keptIds);
-      await AsyncStorage.setItem(
-        KEPT_IMAGES_STORAGE_KEY,
-        JSON.stringify(idsArray)
+      await storage.setItem(
+        lastViewedImageKey(selectedAlbumIdRef.current),
+        imageId
       );
     } catch (error) {
-      console.error("Error saving persisted kept images:", error);
+      console.error("Error saving last viewed image:", error);
     }
-  };
+  }, [storage]);
 
-  // Save deletion images to storage
-  const savePersistedDeletionImages = async (deletionIds: Set<string>) => {
+  // Load last viewed image ID for the selected album
+  const loadLastViewedImage = useCallback(async (): Promise<string | null> => {
     try {
-      const idsArray = Array.from(deletionIds);
-      await AsyncStorage.setItem(
-        DELETION_IMAGES_STORAGE_KEY,
-        JSON.stringify(idsArray)
+      return await storage.getItem(
+        lastViewedImageKey(selectedAlbumIdRef.current)
       );
     } catch (error) {
-      console.error("Error saving persisted deletion images:", error);
+      console.error("Error loading last viewed image:", error);
+      return null;
     }
+  }, [storage]);
+
+  // Order the whole query by file size. Sizes are kept across sessions, so
+  // only files that are new or edited since the last sort are measured.
+  const sortBySize = async (images: ImageAsset[], generation: number) => {
+    await sizeCache.load();
+    const sizes = new Map<string, number>();
+    const unmeasured: ImageAsset[] = [];
+    images.forEach((img) => {
+      const cached = sizeCache.get(img.id, img.modificationTime);
+      if (cached === undefined) {
+        unmeasured.push(img);
+      } else {
+        sizes.set(img.id, cached);
+      }
+    });
+
+    const cachedCount = sizes.size;
+    const metadata = await loadMetadata(
+      unmeasured.map((img) => img.id),
+      (done, total) => {
+        // Updating on every file would re-render thousands of times
+        if (
+          generation === loadGenerationRef.current &&
+          (done % 50 === 0 || done === total)
+        ) {
+          setSortProgress({
+            done: cachedCount + done,
+            total: cachedCount + total,
+          });
+        }
+      }
+    );
+    unmeasured.forEach((img) => {
+      const size = metadata.get(img.id)?.fileSize;
+      if (size != null) {
+        sizes.set(img.id, size);
+        sizeCache.set(img.id, img.modificationTime, size);
+      }
+    });
+    sizeCache.save();
+
+    const measured = images.map((img) => ({
+      ...img,
+      fileSize: sizes.get(img.id) ?? null,
+    }));
+    // Files that couldn't be measured (e.g. in iCloud) go last
+    return measured.sort((a, b) => (b.fileSize ?? -1) - (a.fileSize ?? -1));
   };
 
-  // Remove images from persisted storage
-  const removeFromPersistedKeep = async (imageIds: string[]) => {
+  // Load the whole query, narrowed to the review queue, and put it in an
+  // order the library can't page in
+  const loadSortedImages = async (query: LibraryQuery, generation: number) => {
+    let all = await fetchAllImages(query);
+    if (query.queue === "screenshots") {
+      all = await filterScreenshots(all, query);
+    } else if (query.queue === "later") {
+      const current = getDecisions();
+      all = all.filter((img) => current.get(img.id) === "skip");
+    }
+    switch (query.sortOrder) {
+      case "largest":
+        return sortBySize(all, generation);
+      case "shuffle":
+        return seededShuffle(all, shuffleSeedRef.current);
+      case "album":
+        return groupByAlbum(all, query);
+      default:
+        return all;
+    }
+  };
+
+  // Load images from the first page until at least minCount are loaded
+  const loadImages = async (minCount: number = PAGE_SIZE) => {
+    const generation = ++loadGenerationRef.current;
     try {
-      const currentKept = await loadPersistedKeptImages();
-      imageIds.forEach((id) => currentKept.delete(id));
-      await savePersistedKeptImages(currentKept);
+      setImagesLoading(true);
+      const order = sortOrderRef.current;
+      const ranges = resolveScopeRanges(reviewScopeRef.current);
+      const query: LibraryQuery = {
+        filter: mediaFilterRef.current,
+        albumId: selectedAlbumIdRef.current,
+        // Ranges come newest first
+        ranges: order === "oldest" ? ranges.reverse() : ranges,
+        sortOrder: order,
+        queue: reviewQueueRef.current,
+        screenshotMinAgeDays: screenshotMinAgeDaysRef.current,
+      };
+
+      let loaded: ImageAsset[] = [];
+      let next: PageCursor | undefined;
+      let total: number;
+      if (isStreamedQuery(query)) {
+        let page = await fetchImagesPage(query, { rangeIndex: 0 });
+        loaded.push(...page.assets);
+        while (page.next && loaded.length < minCount) {
+          page = await fetchImagesPage(query, page.next);
+          loaded.push(...page.assets);
+        }
+        next = page.next;
+        // A single range reports its own total, several need counting
+        total =
+          query.ranges.length > 1 ? await countImages(query) : page.totalCount;
+      } else {
+        loaded = await loadSortedImages(query, generation);
+        total = loaded.length;
+      }
+
+      if (generation !== loadGenerationRef.current) {
+        return;
+      }
+      queryRef.current = query;
+      nextCursorRef.current = next;
+      setHasMoreImages(next !== undefined);
+      setTotalCount(total);
+      setImages(loaded);
+      // Runs in the background, the deck doesn't wait for it
+      pruneStaleDecisions();
     } catch (error) {
-      console.error("Error removing from persisted keep:", error);
+      console.error("Error loading images:", error);
+      Alert.alert("Error", "Failed to load images from your library.");
+    } finally {
+      if (generation === loadGenerationRef.current) {
+        setImagesLoading(false);
+        setSortProgress(null);
+        if (libraryChangedRef.current) {
+          libraryChangedRef.current = false;
+          loadImages(minCount);
+        }
+      }
     }
   };
 
-  // Remove images from persisted deletion storage
-  const removeFromPersistedDeletion = async (imageIds: string[]) => {
+  // Append the next page of images, if any
+  const loadMoreImages = useCallback(async () => {
+    const query = queryRef.current;
+    let cursor = nextCursorRef.current;
+    if (!query || !cursor || loadingMoreRef.current) {
+      return;
+    }
+    const generation = loadGenerationRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMoreImages(true);
     try {
-      const currentDeletion = await loadPersistedDeletionImages();
-      imageIds.forEach((id) => currentDeletion.delete(id));
-      await savePersistedDeletionImages(currentDeletion);
+      // Skip over ranges that turn out to be empty
+      const newImages: ImageAsset[] = [];
+      let pageTotal: number | undefined;
+      while (cursor && newImages.length === 0) {
+        const page = await fetchImagesPage(query, cursor);
+        newImages.push(...page.assets);
+        cursor = page.next;
+        pageTotal = page.totalCount;
+      }
+      if (generation !== loadGenerationRef.current) {
+        return;
+      }
+      if (query.ranges.length === 1 && pageTotal !== undefined) {
+        setTotalCount(pageTotal);
+      }
+      nextCursorRef.current = cursor;
+      setHasMoreImages(cursor !== undefined);
+      setImages((prev) => {
+        const existingIds = new Set(prev.map((img) => img.id));
+        return [
+          ...prev,
+          ...newImages.filter((img) => !existingIds.has(img.id)),
+        ];
+      });
     } catch (error) {
-      console.error("Error removing from persisted deletion:", error);
+      console.error("Error loading more images:", error);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMoreImages(false);
+    }
+  }, []);
+
+  // Load the persisted media type filter
+  const loadPersistedMediaFilter = async () => {
+    try {
+      const stored = await storage.getItem(MEDIA_FILTER_KEY);
+      if (isMediaFilter(stored)) {
+        mediaFilterRef.current = stored;
+        setMediaFilterState(stored);
+      }
+    } catch (error) {
+      console.error("Error loading media filter:", error);
     }
   };
 
-  // Save last viewed image ID
-  const saveLastViewedImage = useCallback(async (imageId: string) => {
+  // Load the persisted review scope
+  const loadPersistedReviewScope = async () => {
     try {
-      await AsyncStorage.setItem(LAST_VIEWED_IMAGE_KEY, imageId);
+      const stored = parseScope(await storage.getItem(REVIEW_SCOPE_KEY));
+      if (stored) {
+        reviewScopeRef.current = stored;
+        setReviewScopeState(stored);
+      }
     } catch (error) {
-      console.error("Error saving last viewed image:", error);
+      console.error("Error loading review scope:", error);
     }
-  }, []);
+  };
 
-  // Load last viewed image ID
-  const loadLastViewedImage = useCallback(async (): Promise<string | null> => {
+  // Load the persisted sort order and shuffle seed
+  const loadPersistedSortOrder = async () => {
+    try {
+      const [storedOrder, storedSeed] = await Promise.all([
+        storage.getItem(SORT_ORDER_KEY),
+        storage.getItem(SHUFFLE_SEED_KEY),
+      ]);
+      if (isSortOrder(storedOrder)) {
+        sortOrderRef.current = storedOrder;
+        setSortOrderState(storedOrder);
+      }
+      const seed = Number(storedSeed);
+      if (storedSeed !== null && Number.isInteger(seed)) {
+        shuffleSeedRef.current = seed;
+      } else {
+        // Keep the shuffled order stable across launches
+        shuffleSeedRef.current = createShuffleSeed();
+        await storage.setItem(SHUFFLE_SEED_KEY, String(shuffleSeedRef.current));
+      }
+    } catch (error) {
+      console.error("Error loading sort order:", error);
+    }
+  };
+
+  // Load the persisted review mode
+  const loadPersistedUnreviewedOnly = async () => {
     try {
-      return await AsyncStorage.getItem(LAST_VIEWED_IMAGE_KEY);
+      const stored = await storage.getItem(UNREVIEWED_ONLY_KEY);
+      setUnreviewedOnlyState(stored === "true");
     } catch (error) {
-      console.error("Error loading last viewed image:", error);
-      return null;
+      console.error("Error loading review mode:", error);
     }
-  }, []);
+  };
 
-  const loadImages = async () => {
+  // Load the persisted series window
+  const loadPersistedSeriesWindow = async () => {
     try {
-      setImagesLoading(true);
-      // Load persisted kept and deletion images
-      const persistedKept = await loadPersistedKeptImages();
-      const persistedDeletion = await loadPersistedDeletionImages();
-      // Restore persisted choices to the state
-      setMarkedForKeep(persistedKept);
-      setMarkedForDeletion(persistedDeletion);
-
-      // Get all images directly (no need to loop through albums)
-      const allAssets = await MediaLibrary.getAssetsAsync({
-        mediaType: MediaLibrary.MediaType.photo,
-        first: 1000,
-      });
+      const stored = await storage.getItem(SERIES_WINDOW_KEY);
+      if (stored !== null && SERIES_WINDOW_OPTIONS.includes(Number(stored))) {
+        setSeriesWindowSecondsState(Number(stored));
+      }
+    } catch (error) {
+      console.error("Error loading series window:", error);
+    }
+  };
 
-      const allImages: ImageAsset[] = allAssets.assets.map(
-        (asset: MediaLibrary.Asset) => ({
-          id: asset.id,
-          uri: asset.uri,
-          creationTime: asset.creationTime,
-        })
-      );
+  // Load the persisted swipe actions and the album they add to
+  const loadPersistedSwipeActions = async () => {
+    try {
+      const [storedMap, storedAlbumId] = await Promise.all([
+        storage.getItem(SWIPE_ACTION_MAP_KEY),
+        storage.getItem(SWIPE_ACTION_ALBUM_KEY),
+      ]);
+      setSwipeActionMap(parseSwipeActionMap(storedMap));
+      setSwipeActionAlbumIdState(storedAlbumId);
+    } catch (error) {
+      console.error("Error loading swipe actions:", error);
+    }
+  };
 
-      // Sort by creation time (newest first, like phone gallery)
-      const sorted = allImages.sort((a, b) => b.creationTime - a.creationTime);
-      setImages(sorted);
+  // Load the persisted review queue and screenshot age filter
+  const loadPersistedReviewQueue = async () => {
+    try {
+      const [storedQueue, storedAge] = await Promise.all([
+        storage.getItem(REVIEW_QUEUE_KEY),
+        storage.getItem(SCREENSHOT_MIN_AGE_KEY),
+      ]);
+      if (isReviewQueue(storedQueue)) {
+        reviewQueueRef.current = storedQueue;
+        setReviewQueueState(storedQueue);
+      }
+      const age = Number(storedAge);
+      if (storedAge !== null && SCREENSHOT_AGE_OPTIONS.includes(age)) {
+        screenshotMinAgeDaysRef.current = age;
+        setScreenshotMinAgeDaysState(age);
+      }
     } catch (error) {
-      console.error("Error loading images:", error);
-      Alert.alert("Error", "Failed to load images from your library.");
-    } finally {
+      console.error("Error loading review queue:", error);
+    }
+  };
+
+  // Load the undo and redo history
+  const loadPersistedHistory = async () => {
+    try {
+      await hydrateHistory();
+    } catch (error) {
+      console.error("Error loading history:", error);
+    }
+  };
+
+  const loadPersistedFavorites = async () => {
+    try {
+      await hydrateFavorites();
+    } catch (error) {
+      console.error("Error loading favorites:", error);
+    }
+  };
+
+  // Load the trash and its retention period
+  const loadPersistedTrash = async () => {
+    try {
+      await hydrateTrash();
+      const stored = await storage.getItem(TRASH_RETENTION_KEY);
+      if (stored !== null && TRASH_RETENTION_OPTIONS.includes(Number(stored))) {
+        trashRetentionDaysRef.current = Number(stored);
+        setTrashRetentionDaysState(Number(stored));
+      }
+    } catch (error) {
+      console.error("Error loading trash:", error);
+    }
+  };
+
+  // Load the persisted album selection
+  const loadPersistedSelectedAlbum = async () => {
+    try {
+      const stored = await storage.getItem(SELECTED_ALBUM_KEY);
+      if (stored) {
+        selectedAlbumIdRef.current = stored;
+        setSelectedAlbumId(stored);
+      }
+    } catch (error) {
+      console.error("Error loading selected album:", error);
+    }
+  };
+
+  // Load the albums that contain at least one asset
+  const refreshAlbums = useCallback(async () => {
+    try {
+      const allAlbums = await MediaLibrary.getAlbumsAsync({
+        includeSmartAlbums: true,
+      });
+      const summaries = allAlbums
+        .filter((album) => album.assetCount > 0)
+        .map((album) => ({
+          id: album.id,
+          title: album.title,
+          assetCount: album.assetCount,
+          smart: album.type === "smartAlbum",
+        }))
+        .sort((a, b) => a.title.localeCompare(b.title));
+      setAlbums(summaries);
+
+      // Fall back to the whole library if the selected album is gone
+      const selected = selectedAlbumIdRef.current;
+      if (selected && !summaries.some((album) => album.id === selected)) {
+        selectedAlbumIdRef.current = null;
+        setSelectedAlbumId(null);
+        await storage.removeItem(SELECTED_ALBUM_KEY);
+      }
+    } catch (error) {
+      console.error("Error loading albums:", error);
+    }
+  }, [storage]);
+
+  // Apply a permission response, reloading the library when access changed.
+  // Resolves to whether the library was reloaded.
+  const applyPermissionResponse = async (
+    response: MediaLibrary.PermissionResponse
+  ): Promise<boolean> => {
+    const granted = response.status === "granted";
+    const privileges: AccessPrivileges = granted
+      ? (response.accessPrivileges ?? "all")
+      : "none";
+    const changed = privileges !== accessPrivilegesRef.current;
+    accessPrivilegesRef.current = privileges;
+    setAccessPrivileges(privileges);
+    setCanAskPermissionAgain(response.canAskAgain);
+    setPermissionGranted(granted);
+
+    if (!changed) {
+      return false;
+    }
+    if (granted) {
+      await refreshAlbums();
+      await loadImages();
+      return true;
+    } else {
+      // Access was revoked, drop everything loaded so far
+      loadGenerationRef.current++;
+      queryRef.current = null;
+      nextCursorRef.current = undefined;
+      setImages([]);
+      setTotalCount(0);
+      setHasMoreImages(false);
       setImagesLoading(false);
+      return false;
     }
   };
 
   const requestPermissions = async () => {
     try {
-      const { status } = await MediaLibrary.requestPermissionsAsync();
-      if (status === "granted") {
-        setPermissionGranted(true);
-        await loadImages();
-      } else {
-        setPermissionGranted(false);
-        setImagesLoading(false);
+      await loadPersistedDecisions();
+      await loadPersistedHistory();
+      await loadPersistedFavorites();
+      await loadPersistedMediaFilter();
+      await loadPersistedSelectedAlbum();
+      await loadPersistedReviewScope();
+      await loadPersistedSortOrder();
+      await loadPersistedUnreviewedOnly();
+      await loadPersistedSeriesWindow();
+      await loadPersistedSwipeActions();
+      await loadPersistedReviewQueue();
+      await loadPersistedTrash();
+      await applyPermissionResponse(
+        await MediaLibrary.requestPermissionsAsync()
+      );
+      if (accessPrivilegesRef.current !== "none") {
+        await purgeExpiredTrash();
       }
     } catch (error) {
       console.error("Error requesting permissions:", error);
@@ -196,86 +1093,472 @@ export function ImageSwipeProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Ask for access again from the "Permission Required" screen
+  const retryPermission = async () => {
+    try {
+      await applyPermissionResponse(
+        await MediaLibrary.requestPermissionsAsync()
+      );
+    } catch (error) {
+      console.error("Error requesting permissions:", error);
+    }
+  };
+
+  // Pick up permission changes made in system settings
+  const recheckPermission = async () => {
+    try {
+      return await applyPermissionResponse(
+        await MediaLibrary.getPermissionsAsync()
+      );
+    } catch (error) {
+      console.error("Error checking permissions:", error);
+      return false;
+    }
+  };
+
+  // Let the user extend the selection of shared photos
+  const presentLimitedAccessPicker = async () => {
+    try {
+      await MediaLibrary.presentPermissionsPickerAsync();
+      // The selection may have changed without a change in privileges
+      const reloaded = await recheckPermission();
+      if (!reloaded) {
+        await refreshImages();
+      }
+    } catch (error) {
+      console.error("Error presenting permissions picker:", error);
+    }
+  };
+
   // Load images on app startup
   useEffect(() => {
     requestPermissions();
   }, []);
 
+  // Always call the latest check so it sees current state
+  const recheckPermissionRef = useRef(recheckPermission);
+  recheckPermissionRef.current = recheckPermission;
+
+  // Re-check access when returning from system settings
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active" && accessPrivilegesRef.current !== null) {
+        recheckPermissionRef.current();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Reconcile changes made to the library while the app is open
+  const handleLibraryChange = (
+    event: MediaLibrary.MediaLibraryAssetsChangeEvent
+  ) => {
+    if (imagesLoading) {
+      // Reload once the current load is done
+      libraryChangedRef.current = true;
+      return;
+    }
+    const query = queryRef.current;
+    if (!query) {
+      return;
+    }
+    if (!event.hasIncrementalChanges) {
+      refreshImages();
+      return;
+    }
+
+    const inserted = event.insertedAssets ?? [];
+    const deleted = event.deletedAssets ?? [];
+    const updated = event.updatedAssets ?? [];
+
+    // Album membership of new assets is unknown on iOS, so reload instead
+    if (inserted.some((asset) => matchesQuery(asset, query) === undefined)) {
+      refreshImages();
+      return;
+    }
+    // Only date orders of the whole library can place new assets locally,
+    // the others are redone
+    if (
+      !isStreamedQuery(query) &&
+      inserted.some((asset) => matchesQuery(asset, query))
+    ) {
+      refreshImages();
+      return;
+    }
+
+    const insertedImages = inserted
+      .filter((asset) => matchesQuery(asset, query))
+      .map(toImageAsset);
+    const deletedIds = new Set(deleted.map((asset) => asset.id));
+    const decidedDeletedIds = [...deletedIds].filter((id) => decisions.has(id));
+    if (decidedDeletedIds.length > 0) {
+      forgetDecisions(decidedDeletedIds);
+    }
+    removeFromTrash([...deletedIds]).catch((error) =>
+      console.error("Error saving trash:", error)
+    );
+    removeFavorites([...deletedIds]);
+    const updatedById = new Map(updated.map((asset) => [asset.id, asset]));
+    const hasMore = nextCursorRef.current !== undefined;
+
+    // A deleted asset leaves the total if it was loaded or matches the query
+    const loadedIds = new Set(images.map((img) => img.id));
+    const removedCount = deleted.filter(
+      (asset) => loadedIds.has(asset.id) || matchesQuery(asset, query) === true
+    ).length;
+    setTotalCount((prev) =>
+      Math.max(0, prev + insertedImages.length - removedCount)
+    );
+
+    const ascending = query.sortOrder === "oldest";
+    setImages((prev) => {
+      const lastLoaded = prev[prev.length - 1]?.creationTime;
+      const existingIds = new Set(prev.map((img) => img.id));
+      const kept = prev
+        .filter((img) => !deletedIds.has(img.id))
+        .map((img) => {
+          const asset = updatedById.get(img.id);
+          // The measured size is only known locally, so keep it
+          return asset
+            ? { ...toImageAsset(asset), fileSize: img.fileSize }
+            : img;
+        });
+
+      // Assets beyond the loaded window arrive with a later page instead
+      const toInsert = insertedImages.filter(
+        (img) =>
+          !existingIds.has(img.id) &&
+          (!hasMore ||
+            lastLoaded === undefined ||
+            (ascending
+              ? img.creationTime <= lastLoaded
+              : img.creationTime >= lastLoaded))
+      );
+      if (toInsert.length === 0) {
+        return kept;
+      }
+      return [...kept, ...toInsert].sort((a, b) =>
+        ascending
+          ? a.creationTime - b.creationTime
+          : b.creationTime - a.creationTime
+      );
+    });
+  };
+
+  // Always call the latest handler so it sees current state
+  const libraryChangeHandlerRef = useRef(handleLibraryChange);
+  libraryChangeHandlerRef.current = handleLibraryChange;
+
+  useEffect(() => {
+    if (!permissionGranted) {
+      return;
+    }
+    const subscription = MediaLibrary.addListener((event) =>
+      libraryChangeHandlerRef.current(event)
+    );
+    return () => subscription.remove();
+  }, [permissionGranted]);
+
   const refreshImages = async () => {
+    if (permissionGranted) {
+      // Reload at least as many images as were loaded before
+      await loadImages(Math.max(images.length, PAGE_SIZE));
+    }
+  };
+
+  // Change which media types are shown and reload the library
+  const setMediaFilter = async (filter: MediaFilter) => {
+    if (filter === mediaFilterRef.current) {
+      return;
+    }
+    mediaFilterRef.current = filter;
+    setMediaFilterState(filter);
+    try {
+      await storage.setItem(MEDIA_FILTER_KEY, filter);
+    } catch (error) {
+      console.error("Error saving media filter:", error);
+    }
+    // The deck changes entirely, so start again from the first page
     if (permissionGranted) {
       await loadImages();
     }
   };
 
+  // Review a single album (or the whole library with null)
+  const selectAlbum = async (albumId: string | null) => {
+    if (albumId === selectedAlbumIdRef.current) {
+      return;
+    }
+    selectedAlbumIdRef.current = albumId;
+    setSelectedAlbumId(albumId);
+    try {
+      if (albumId) {
+        await storage.setItem(SELECTED_ALBUM_KEY, albumId);
+      } else {
+        await storage.removeItem(SELECTED_ALBUM_KEY);
+      }
+    } catch (error) {
+      console.error("Error saving selected album:", error);
+    }
+    if (permissionGranted) {
+      await loadImages();
+    }
+  };
+
+  // Limit the deck to a period of time
+  const setReviewScope = async (scope: ReviewScope) => {
+    if (isSameScope(scope, reviewScopeRef.current)) {
+      return;
+    }
+    reviewScopeRef.current = scope;
+    setReviewScopeState(scope);
+    try {
+      await storage.setItem(REVIEW_SCOPE_KEY, JSON.stringify(scope));
+    } catch (error) {
+      console.error("Error saving review scope:", error);
+    }
+    if (permissionGranted) {
+      await loadImages();
+    }
+  };
+
+  // Change the order of the deck and gallery
+  const setSortOrder = async (order: SortOrder) => {
+    if (order === sortOrderRef.current) {
+      return;
+    }
+    sortOrderRef.current = order;
+    setSortOrderState(order);
+    try {
+      await storage.setItem(SORT_ORDER_KEY, order);
+    } catch (error) {
+      console.error("Error saving sort order:", error);
+    }
+    if (permissionGranted) {
+      await loadImages();
+    }
+  };
+
+  const reshuffle = async () => {
+    shuffleSeedRef.current = createShuffleSeed();
+    try {
+      await storage.setItem(SHUFFLE_SEED_KEY, String(shuffleSeedRef.current));
+    } catch (error) {
+      console.error("Error saving shuffle seed:", error);
+    }
+    if (permissionGranted && sortOrderRef.current === "shuffle") {
+      await loadImages();
+    }
+  };
+
+  // The deck is filtered on screen, so nothing needs reloading
+  const setUnreviewedOnly = async (enabled: boolean) => {
+    setUnreviewedOnlyState(enabled);
+    try {
+      await storage.setItem(UNREVIEWED_ONLY_KEY, String(enabled));
+    } catch (error) {
+      console.error("Error saving review mode:", error);
+    }
+  };
+
+  // Series are worked out on screen, so nothing needs reloading
+  const setSeriesWindowSeconds = async (seconds: number) => {
+    setSeriesWindowSecondsState(seconds);
+    try {
+      await storage.setItem(SERIES_WINDOW_KEY, String(seconds));
+    } catch (error) {
+      console.error("Error saving series window:", error);
+    }
+  };
+
+  const setSwipeAction = async (
+    direction: SwipeDirection,
+    action: SwipeAction
+  ) => {
+    const next = { ...swipeActionMap, [direction]: action };
+    setSwipeActionMap(next);
+    try {
+      await storage.setItem(SWIPE_ACTION_MAP_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error("Error saving swipe actions:", error);
+    }
+  };
+
+  const setSwipeActionAlbumId = async (albumId: string | null) => {
+    setSwipeActionAlbumIdState(albumId);
+    try {
+      if (albumId) {
+        await storage.setItem(SWIPE_ACTION_ALBUM_KEY, albumId);
+      } else {
+        await storage.removeItem(SWIPE_ACTION_ALBUM_KEY);
+      }
+    } catch (error) {
+      console.error("Error saving swipe action album:", error);
+    }
+  };
+
+  // Switch the queue the deck is drawn from
+  const setReviewQueue = async (queue: ReviewQueue) => {
+    if (queue === reviewQueueRef.current) {
+      return;
+    }
+    reviewQueueRef.current = queue;
+    setReviewQueueState(queue);
+    try {
+      await storage.setItem(REVIEW_QUEUE_KEY, queue);
+    } catch (error) {
+      console.error("Error saving review queue:", error);
+    }
+    if (permissionGranted) {
+      await loadImages();
+    }
+  };
+
+  const setScreenshotMinAgeDays = async (days: number) => {
+    if (days === screenshotMinAgeDaysRef.current) {
+      return;
+    }
+    screenshotMinAgeDaysRef.current = days;
+    setScreenshotMinAgeDaysState(days);
+    try {
+      await storage.setItem(SCREENSHOT_MIN_AGE_KEY, String(days));
+    } catch (error) {
+      console.error("Error saving screenshot age filter:", error);
+    }
+    if (permissionGranted && reviewQueueRef.current === "screenshots") {
+      await loadImages();
+    }
+  };
+
+  const setTrashRetentionDays = async (days: number) => {
+    trashRetentionDaysRef.current = days;
+    setTrashRetentionDaysState(days);
+    try {
+      await storage.setItem(TRASH_RETENTION_KEY, String(days));
+    } catch (error) {
+      console.error("Error saving trash retention:", error);
+    }
+  };
+
+  // Stable across renders, so screens can use them in effects
+  const moveToTrash = addToTrash;
+  const restoreFromTrash = removeFromTrash;
+
+  const purgeFromTrash = async (
+    imageIds: string[],
+    options?: {
+      onProgress?: (done: number, total: number) => void;
+      signal?: AbortSignal;
+    }
+  ) => {
+    const result = await deleteAssetsInBatches(imageIds, options);
+    await removeFromTrash(result.deletedIds);
+    return result;
+  };
+
+  // Delete whatever has been in the trash longer than the retention period
+  const purgeExpiredTrash = async () => {
+    const cutoff = Date.now() - trashRetentionDaysRef.current * DAY_MS;
+    const expiredIds = [...getTrash()]
+      .filter(([, trashedAt]) => trashedAt <= cutoff)
+      .map(([id]) => id);
+    if (expiredIds.length === 0) {
+      return;
+    }
+    try {
+      await purgeFromTrash(expiredIds);
+    } catch (error) {
+      console.error("Error purging expired trash:", error);
+    }
+  };
+
   const markForDeletion = (imageId: string) => {
-    setMarkedForDeletion((prev) => {
-      const newSet = new Set(prev).add(imageId);
-      // Save to persistent storage
-      savePersistedDeletionImages(newSet);
-      return newSet;
-    });
-    // Remove from keep set if it was there
-    setMarkedForKeep((prev) => {
-      const newSet = new Set(prev);
-      newSet.delete(imageId);
-      // Update persistent storage
-      savePersistedKeptImages(newSet);
-      return newSet;
-    });
+    updateDecisions({ type: "decide", imageId, decision: "delete" });
   };
 
   const markForKeep = (imageId: string) => {
-    setMarkedForKeep((prev) => {
-      const newSet = new Set(prev).add(imageId);
-      // Save to persistent storage
-      savePersistedKeptImages(newSet);
-      return newSet;
-    });
-    // Remove from deletion set if it was there
-    setMarkedForDeletion((prev) => {
-      const newSet = new Set(prev);
-      newSet.delete(imageId);
-      return newSet;
-    });
+    updateDecisions({ type: "decide", imageId, decision: "keep" });
   };
 
   const unmarkForDeletion = (imageId: string) => {
-    setMarkedForDeletion((prev) => {
-      const newSet = new Set(prev);
-      newSet.delete(imageId);
-      // Update persistent storage
-      savePersistedDeletionImages(newSet);
-      return newSet;
+    updateDecisions({
+      type: "forget",
+      imageIds: [imageId],
+      decision: "delete",
     });
   };
 
   const unmarkForKeep = (imageId: string) => {
-    setMarkedForKeep((prev) => {
-      const newSet = new Set(prev);
-      newSet.delete(imageId);
-      // Update persistent storage
-      savePersistedKeptImages(newSet);
-      return newSet;
-    });
+    updateDecisions({ type: "forget", imageIds: [imageId], decision: "keep" });
   };
 
   const clearAll = () => {
-    setMarkedForDeletion(new Set());
-    setMarkedForKeep(new Set());
+    updateDecisions({ type: "forget" });
   };
 
   const clearDeletion = () => {
-    setMarkedForDeletion(new Set());
+    updateDecisions({ type: "forget", decision: "delete" });
   };
 
   return (
     <ImageSwipeContext.Provider
       value={{
+        decisions,
         markedForDeletion,
         markedForKeep,
-        images,
+        markedForLater,
+        favorites,
+        images: visibleImages,
         imagesLoading,
+        // Loaded trashed assets are known to be out of the deck
+        totalCount: Math.max(
+          0,
+          totalCount - (images.length - visibleImages.length)
+        ),
+        hasMoreImages,
+        loadingMoreImages,
         permissionGranted,
+        accessPrivileges,
+        canAskPermissionAgain,
+        retryPermission,
+        presentLimitedAccessPicker,
+        mediaFilter,
+        setMediaFilter,
+        albums,
+        selectedAlbumId,
+        selectAlbum,
+        refreshAlbums,
+        reviewScope,
+        setReviewScope,
+        sortOrder,
+        setSortOrder,
+        reshuffle,
+        sortProgress,
+        unreviewedOnly,
+        setUnreviewedOnly,
+        seriesWindowSeconds,
+        setSeriesWindowSeconds,
+        swipeActionMap,
+        setSwipeAction,
+        swipeActionAlbumId,
+        setSwipeActionAlbumId,
+        reviewQueue,
+        setReviewQueue,
+        screenshotMinAgeDays,
+        setScreenshotMinAgeDays,
+        trash,
+        trashRetentionDays,
+        setTrashRetentionDays,
+        moveToTrash,
+        restoreFromTrash,
+        purgeFromTrash,
+        history,
+        redoHistory,
+        recordDecisions,
+        undoDecision,
+        redoDecision,
+        undoDecisionsTo,
+        forgetHistory,
         markForDeletion,
         markForKeep,
         unmarkForDeletion,
@@ -283,8 +1566,10 @@ export function ImageSwipeProvider({ children }: { children: ReactNode }) {
         clearAll,
         clearDeletion,
         refreshImages,
+        loadMoreImages,
         removeFromPersistedKeep,
         removeFromPersistedDeletion,
+        prunedCount,
         saveLastViewedImage,
         loadLastViewedImage,
       }}
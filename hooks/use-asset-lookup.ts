@@ -0,0 +1,53 @@
+import * as MediaLibrary from "expo-media-library";
+import { useEffect, useState } from "react";
+
+// Lookups run in batches of this size
+const LOOKUP_BATCH_SIZE = 20;
+
+// Library info for assets that may not be loaded in the deck. Results are
+// kept, so changing the IDs only looks up the new ones. Assets that no longer
+// exist map to null, ones whose lookup failed to undefined.
+export function useAssetLookup(assetIds: readonly string[]) {
+  const [infos, setInfos] = useState<
+    ReadonlyMap<string, MediaLibrary.AssetInfo | null | undefined>
+  >(() => new Map());
+  const missingKey = assetIds.filter((id) => !infos.has(id)).join(",");
+
+  useEffect(() => {
+    if (!missingKey) {
+      return;
+    }
+    let cancelled = false;
+    const lookUp = async () => {
+      const ids = missingKey.split(",");
+      const found = new Map<
+        string,
+        MediaLibrary.AssetInfo | null | undefined
+      >();
+      for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+        const batch = ids.slice(i, i + LOOKUP_BATCH_SIZE);
+        // Don't trigger iCloud downloads just to show a thumbnail
+        const results = await Promise.all(
+          batch.map((id) =>
+            MediaLibrary.getAssetInfoAsync(id, {
+              shouldDownloadFromNetwork: false,
+            }).then(
+              (info) => info ?? null,
+              () => undefined
+            )
+          )
+        );
+        batch.forEach((id, j) => found.set(id, results[j]));
+      }
+      if (!cancelled) {
+        setInfos((prev) => new Map([...prev, ...found]));
+      }
+    };
+    lookUp();
+    return () => {
+      cancelled = true;
+    };
+  }, [missingKey]);
+
+  return { infos, loading: missingKey !== "" };
+}
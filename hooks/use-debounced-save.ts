@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef } from "react";
+import { AppState } from "react-native";
+
+// Wait this long after the last change before writing to storage
+const SAVE_DEBOUNCE_MS = 500;
+
+// Holds the latest value of some state and writes it to storage in the
+// background. Writes are batched, and flushed right away when the app leaves
+// the foreground. write gets the value as last written and the one to write;
+// if it fails, the same changes are written with the next save. name is only
+// used in error messages.
+export function useDebouncedSave<T>(
+  initial: T,
+  write: (saved: T, latest: T) => Promise<void>,
+  name: string
+) {
+  // Always the latest value, even before React re-renders
+  const latestRef = useRef(initial);
+  // Value as last written to storage
+  const savedRef = useRef(initial);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Write pending changes now
+  const flush = useCallback(async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const saved = savedRef.current;
+    const latest = latestRef.current;
+    if (saved === latest) {
+      return;
+    }
+    savedRef.current = latest;
+    try {
+      await write(saved, latest);
+    } catch (error) {
+      console.error(`Error saving ${name}:`, error);
+      // Retry these changes with the next save
+      if (savedRef.current === latest) {
+        savedRef.current = saved;
+      }
+    }
+  }, [write, name]);
+
+  // Make next the latest value and write it once changes settle
+  const schedule = useCallback(
+    (next: T) => {
+      latestRef.current = next;
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+      }
+      saveTimerRef.current = setTimeout(flush, SAVE_DEBOUNCE_MS);
+    },
+    [flush]
+  );
+
+  // Take a value just read from storage, which needs no writing
+  const reset = useCallback((loaded: T) => {
+    latestRef.current = loaded;
+    savedRef.current = loaded;
+  }, []);
+
+  // The app can be killed any time once it's in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state !== "active") {
+        flush();
+      }
+    });
+    return () => {
+      subscription.remove();
+      flush();
+    };
+  }, [flush]);
+
+  return { latestRef, flush, schedule, reset };
+}
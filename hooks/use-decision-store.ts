@@ -0,0 +1,119 @@
+import { useCallback, useReducer, useRef } from "react";
+import { useDebouncedSave } from "@/hooks/use-debounced-save";
+import { Decision } from "@/storage/persisted-state";
+import { DecisionChanges, SwipeStorage } from "@/storage/swipe-storage";
+
+// Asset ID -> decision. A map can only hold one decision per asset.
+export type DecisionMap = ReadonlyMap<string, Decision>;
+
+export type DecisionAction =
+  // Replace everything with the decisions read from storage
+  | { type: "hydrate"; decisions: DecisionMap }
+  | { type: "decide"; imageId: string; decision: Decision }
+  // Drop decisions, limited to the given IDs and/or decision when set
+  | { type: "forget"; imageIds?: string[]; decision?: Decision };
+
+const EMPTY_DECISIONS: DecisionMap = new Map();
+
+// What changed between the last saved decisions and the latest ones
+const diffDecisions = (
+  saved: DecisionMap,
+  latest: DecisionMap
+): DecisionChanges => {
+  const set: Record<string, Decision> = {};
+  latest.forEach((decision, id) => {
+    if (saved.get(id) !== decision) {
+      set[id] = decision;
+    }
+  });
+  const removed = [...saved.keys()].filter((id) => !latest.has(id));
+  return { set, removed };
+};
+
+export function decisionsReducer(
+  state: DecisionMap,
+  action: DecisionAction
+): DecisionMap {
+  switch (action.type) {
+    case "hydrate":
+      return action.decisions;
+    case "decide": {
+      if (state.get(action.imageId) === action.decision) {
+        return state;
+      }
+      const next = new Map(state);
+      next.set(action.imageId, action.decision);
+      return next;
+    }
+    case "forget": {
+      const ids = action.imageIds ?? Array.from(state.keys());
+      const toForget = ids.filter((id) => {
+        const decision = state.get(id);
+        return (
+          decision !== undefined &&
+          (action.decision === undefined || decision === action.decision)
+        );
+      });
+      if (toForget.length === 0) {
+        return state;
+      }
+      const next = new Map(state);
+      toForget.forEach((id) => next.delete(id));
+      return next;
+    }
+  }
+}
+
+// Decisions held in a reducer and written to storage in the background.
+// Writes are batched and flushed right away when the app leaves the foreground.
+// Nothing is written while storage holds decisions from a newer app version.
+export function useDecisionStore(storage: SwipeStorage) {
+  const [decisions, dispatch] = useReducer(decisionsReducer, EMPTY_DECISIONS);
+  // Set while storage holds decisions from a newer version of the app
+  const readOnlyRef = useRef(false);
+
+  const write = useCallback(
+    async (saved: DecisionMap, latest: DecisionMap) => {
+      if (!readOnlyRef.current) {
+        await storage.saveDecisions(diffDecisions(saved, latest));
+      }
+    },
+    [storage]
+  );
+  const { latestRef, flush, schedule, reset } = useDebouncedSave(
+    EMPTY_DECISIONS,
+    write,
+    "decisions"
+  );
+
+  const update = useCallback(
+    (action: DecisionAction) => {
+      const next = decisionsReducer(latestRef.current, action);
+      if (next === latestRef.current) {
+        return;
+      }
+      dispatch(action);
+      schedule(next);
+    },
+    [latestRef, schedule]
+  );
+
+  // Read stored decisions, migrating older formats. Resolves to whether
+  // damaged data had to be skipped and whether saving is off.
+  const hydrate = useCallback(async () => {
+    const {
+      decisions: stored,
+      recovered,
+      readOnly,
+    } = await storage.loadDecisions();
+    const loaded: DecisionMap = new Map(Object.entries(stored));
+    readOnlyRef.current = readOnly;
+    reset(loaded);
+    dispatch({ type: "hydrate", decisions: loaded });
+    return { recovered, readOnly };
+  }, [storage, reset]);
+
+  const getDecisions = useCallback(() => latestRef.current, [latestRef]);
+
+  return { decisions, update, hydrate, flush, getDecisions };
+}
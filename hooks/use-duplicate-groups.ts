@@ -0,0 +1,173 @@
+import { ImageAsset } from "@/contexts/image-swipe-context";
+import { createAssetCache } from "@/storage/asset-cache";
+import {
+  createSimilarityIndex,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  DHASH_HEIGHT,
+  DHASH_WIDTH,
+  dHashFromRgba,
+} from "@/utils/perceptual-hash";
+import { File } from "expo-file-system";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import { decode } from "jpeg-js";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+// Publish groups after this many new hashes, instead of after every photo
+const PUBLISH_EVERY = 20;
+
+const hashCache = createAssetCache(
+  "perceptual-hashes.json",
+  "perceptual hash",
+  (value): value is string => typeof value === "string"
+);
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Shrink the photo to the hash size and hash its pixels
+const computeHash = async (uri: string) => {
+  const context = ImageManipulator.manipulate(uri).resize({
+    width: DHASH_WIDTH,
+    height: DHASH_HEIGHT,
+  });
+  const image = await context.renderAsync();
+  try {
+    const result = await image.saveAsync({
+      format: SaveFormat.JPEG,
+      compress: 1,
+      base64: true,
+    });
+    new File(result.uri).delete();
+    if (!result.base64) {
+      throw new Error("Thumbnail has no image data");
+    }
+    const { data } = decode(base64ToBytes(result.base64), {
+      useTArray: true,
+      formatAsRGBA: true,
+    });
+    return dHashFromRgba(data);
+  } finally {
+    image.release();
+    context.release();
+  }
+};
+
+type HashedPhotos = {
+  threshold: number;
+  index: ReturnType<typeof createSimilarityIndex>;
+  // Photos already added to the index or that couldn't be hashed
+  seen: Set<string>;
+};
+
+// Groups of near-identical photos among the given images, hashing photos in
+// the background. Each hash is grouped as it comes in, so the whole set is
+// never compared again, and photos already seen aren't hashed again when
+// more images load. Groups follow the order of images.
+export function useDuplicateGroups(
+  images: ImageAsset[],
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+) {
+  const [groupIds, setGroupIds] = useState<string[][]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const hashedRef = useRef<HashedPhotos | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const photos = images.filter((img) => img.mediaType === "photo");
+    if (hashedRef.current?.threshold !== threshold) {
+      hashedRef.current = {
+        threshold,
+        index: createSimilarityIndex(threshold),
+        seen: new Set(),
+      };
+    }
+    const { index, seen } = hashedRef.current;
+
+    const hashPhotos = async () => {
+      await hashCache.load();
+      const missing: ImageAsset[] = [];
+      photos.forEach((img) => {
+        if (seen.has(img.id)) {
+          return;
+        }
+        const hash = hashCache.get(img.id, img.modificationTime);
+        if (hash) {
+          index.add(img.id, hash);
+          seen.add(img.id);
+        } else {
+          missing.push(img);
+        }
+      });
+      let done = photos.length - missing.length;
+      if (cancelled) {
+        return;
+      }
+      setGroupIds(index.groups());
+      setProgress({ done, total: photos.length });
+
+      try {
+        for (const img of missing) {
+          if (cancelled) {
+            return;
+          }
+          try {
+            const hash = await computeHash(img.uri);
+            hashCache.set(img.id, img.modificationTime, hash);
+            // An earlier pass may have finished it in the meantime
+            if (!seen.has(img.id)) {
+              index.add(img.id, hash);
+            }
+          } catch (error) {
+            // e.g. a photo only in iCloud, leave it out
+            console.error("Error hashing image:", error);
+          }
+          seen.add(img.id);
+          done++;
+          if (
+            !cancelled &&
+            (done % PUBLISH_EVERY === 0 || done === photos.length)
+          ) {
+            setGroupIds(index.groups());
+            setProgress({ done, total: photos.length });
+          }
+        }
+      } finally {
+        hashCache.save();
+      }
+    };
+
+    hashPhotos();
+    return () => {
+      cancelled = true;
+    };
+  }, [images, threshold]);
+
+  const positionById = useMemo(
+    () => new Map(images.map((img, i) => [img.id, i])),
+    [images]
+  );
+  const groups = useMemo(() => {
+    const position = (id: string) => positionById.get(id) ?? -1;
+    return groupIds
+      .map((ids) =>
+        ids
+          .filter((id) => position(id) !== -1)
+          .sort((a, b) => position(a) - position(b))
+          .map((id) => images[position(id)])
+      )
+      .filter((group) => group.length > 1)
+      .sort((a, b) => position(a[0].id) - position(b[0].id));
+  }, [groupIds, positionById, images]);
+
+  return {
+    groups,
+    progress,
+    scanning: progress.done < progress.total,
+  };
+}
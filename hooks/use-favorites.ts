@@ -0,0 +1,72 @@
+import { useCallback, useRef, useState } from "react";
+import { SwipeStorage } from "@/storage/swipe-storage";
+
+const FAVORITES_KEY = "@swipe:favorites";
+
+const NO_FAVORITES: ReadonlySet<string> = new Set();
+
+// Read the stored favorites, skipping entries that aren't an ID
+const parseFavorites = (stored: string | null): ReadonlySet<string> => {
+  if (!stored) {
+    return NO_FAVORITES;
+  }
+  const parsed: unknown = JSON.parse(stored);
+  if (!Array.isArray(parsed)) {
+    return NO_FAVORITES;
+  }
+  return new Set(parsed.filter((id): id is string => typeof id === "string"));
+};
+
+// Assets the user favorited while reviewing. expo-media-library can read the
+// system favorite flag but not set it, so favorites made here are kept by
+// the app.
+export function useFavorites(storage: SwipeStorage) {
+  const [favorites, setFavorites] = useState<ReadonlySet<string>>(NO_FAVORITES);
+  // Always the latest favorites, even before React re-renders
+  const latestRef = useRef<ReadonlySet<string>>(NO_FAVORITES);
+
+  const save = useCallback(
+    (next: ReadonlySet<string>) => {
+      latestRef.current = next;
+      setFavorites(next);
+      storage
+        .setItem(FAVORITES_KEY, JSON.stringify([...next]))
+        .catch((error) => console.error("Error saving favorites:", error));
+    },
+    [storage]
+  );
+
+  const hydrate = useCallback(async () => {
+    const loaded = parseFavorites(await storage.getItem(FAVORITES_KEY));
+    latestRef.current = loaded;
+    setFavorites(loaded);
+  }, [storage]);
+
+  const toggle = useCallback(
+    (assetId: string) => {
+      const next = new Set(latestRef.current);
+      if (!next.delete(assetId)) {
+        next.add(assetId);
+      }
+      save(next);
+    },
+    [save]
+  );
+
+  const remove = useCallback(
+    (assetIds: string[]) => {
+      const toRemove = assetIds.filter((id) => latestRef.current.has(id));
+      if (toRemove.length === 0) {
+        return;
+      }
+      const next = new Set(latestRef.current);
+      toRemove.forEach((id) => next.delete(id));
+      save(next);
+    },
+    [save]
+  );
+
+  const getFavorites = useCallback(() => latestRef.current, []);
+
+  return { favorites, hydrate, toggle, remove, getFavorites };
+}
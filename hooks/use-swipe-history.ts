@@ -0,0 +1,214 @@
+import { useCallback, useState } from "react";
+import { useDebouncedSave } from "@/hooks/use-debounced-save";
+import { DecisionAction, DecisionMap } from "@/hooks/use-decision-store";
+import { Decision, isDecision } from "@/storage/persisted-state";
+import { SwipeStorage } from "@/storage/swipe-storage";
+
+// One asset's decision before and after a step; null means undecided
+export type DecisionChange = {
+  imageId: string;
+  previous: Decision | null;
+  next: Decision | null;
+};
+
+// A single step the user took, e.g. a swipe or keeping one shot of a series
+export type HistoryEntry = {
+  // The image the step was taken on
+  imageId: string;
+  changes: DecisionChange[];
+  // Set when the step also toggled the image's favorite flag
+  favorite?: boolean;
+  // When the step was taken (ms since epoch)
+  at: number;
+};
+
+type HistoryState = {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+};
+
+const HISTORY_KEY = "@swipe:history";
+
+// Older steps are dropped beyond this many
+const MAX_HISTORY = 500;
+
+const EMPTY_HISTORY: HistoryState = { undo: [], redo: [] };
+
+const isDecisionOrNull = (value: unknown) =>
+  value === null || (typeof value === "string" && isDecision(value));
+
+const isHistoryEntry = (value: unknown): value is HistoryEntry => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const entry = value as Partial<HistoryEntry>;
+  return (
+    typeof entry.imageId === "string" &&
+    typeof entry.at === "number" &&
+    (entry.favorite === undefined || typeof entry.favorite === "boolean") &&
+    Array.isArray(entry.changes) &&
+    entry.changes.every(
+      (change) =>
+        typeof change === "object" &&
+        change !== null &&
+        typeof change.imageId === "string" &&
+        isDecisionOrNull(change.previous) &&
+        isDecisionOrNull(change.next)
+    )
+  );
+};
+
+// Read the stored history, skipping entries that can't be understood
+const parseHistory = (stored: string | null): HistoryState => {
+  if (!stored) {
+    return EMPTY_HISTORY;
+  }
+  const parsed = JSON.parse(stored);
+  const entries = (value: unknown) =>
+    Array.isArray(value) ? value.filter(isHistoryEntry) : [];
+  return { undo: entries(parsed?.undo), redo: entries(parsed?.redo) };
+};
+
+// Undo and redo stacks of decision steps, kept by image ID so they survive
+// library refreshes and restarts. Like decisions, writes are batched and
+// flushed right away when the app leaves the foreground.
+export function useSwipeHistory(
+  storage: SwipeStorage,
+  getDecisions: () => DecisionMap,
+  updateDecisions: (action: DecisionAction) => void,
+  toggleFavorite: (imageId: string) => void
+) {
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const write = useCallback(
+    (_saved: HistoryState, latest: HistoryState) =>
+      storage.setItem(HISTORY_KEY, JSON.stringify(latest)),
+    [storage]
+  );
+  // latestRef always holds the latest stacks, so several steps in a row
+  // build on each other
+  const { latestRef, schedule, reset } = useDebouncedSave(
+    EMPTY_HISTORY,
+    write,
+    "history"
+  );
+
+  const save = useCallback(
+    (next: HistoryState) => {
+      setHistory(next);
+      schedule(next);
+    },
+    [schedule]
+  );
+
+  const apply = useCallback(
+    (imageId: string, decision: Decision | null) => {
+      if (decision === null) {
+        updateDecisions({ type: "forget", imageIds: [imageId] });
+      } else {
+        updateDecisions({ type: "decide", imageId, decision });
+      }
+    },
+    [updateDecisions]
+  );
+
+  const hydrate = useCallback(async () => {
+    const loaded = parseHistory(await storage.getItem(HISTORY_KEY));
+    reset(loaded);
+    setHistory(loaded);
+  }, [storage, reset]);
+
+  // Make decisions, and optionally toggle the image's favorite flag, as one
+  // step that can be undone. Starts a new branch, so anything that could be
+  // redone is dropped.
+  const record = useCallback(
+    (
+      imageId: string,
+      decisions: { imageId: string; decision: Decision | null }[],
+      { favorite = false }: { favorite?: boolean } = {}
+    ) => {
+      const current = getDecisions();
+      const changes = decisions.map(({ imageId: id, decision }) => ({
+        imageId: id,
+        previous: current.get(id) ?? null,
+        next: decision,
+      }));
+      changes.forEach((change) => apply(change.imageId, change.next));
+      const entry: HistoryEntry = { imageId, changes, at: Date.now() };
+      if (favorite) {
+        toggleFavorite(imageId);
+        entry.favorite = true;
+      }
+      save({
+        undo: [...latestRef.current.undo, entry].slice(-MAX_HISTORY),
+        redo: [],
+      });
+      return entry;
+    },
+    [getDecisions, apply, toggleFavorite, save, latestRef]
+  );
+
+  // Undo the latest steps down to and including the one at index. Returns
+  // the undone steps, latest first.
+  const undoTo = useCallback(
+    (index: number) => {
+      const { undo, redo } = latestRef.current;
+      if (index < 0 || index >= undo.length) {
+        return [];
+      }
+      const undone = undo.slice(index).reverse();
+      undone.forEach((entry) => {
+        [...entry.changes]
+          .reverse()
+          .forEach((change) => apply(change.imageId, change.previous));
+        if (entry.favorite) {
+          toggleFavorite(entry.imageId);
+        }
+      });
+      save({ undo: undo.slice(0, index), redo: [...redo, ...undone] });
+      return undone;
+    },
+    [apply, toggleFavorite, save, latestRef]
+  );
+
+  const undo = useCallback(
+    () => undoTo(latestRef.current.undo.length - 1)[0],
+    [undoTo, latestRef]
+  );
+
+  const redo = useCallback(() => {
+    const { undo, redo } = latestRef.current;
+    const entry = redo[redo.length - 1];
+    if (!entry) {
+      return undefined;
+    }
+    entry.changes.forEach((change) => apply(change.imageId, change.next));
+    if (entry.favorite) {
+      toggleFavorite(entry.imageId);
+    }
+    save({ undo: [...undo, entry], redo: redo.slice(0, -1) });
+    return entry;
+  }, [apply, toggleFavorite, save, latestRef]);
+
+  // Drop steps that touch the given images, e.g. once they are trashed
+  const forget = useCallback(
+    (imageIds: string[]) => {
+      const ids = new Set(imageIds);
+      const keep = (entry: HistoryEntry) =>
+        !entry.changes.some((change) => ids.has(change.imageId));
+      const { undo, redo } = latestRef.current;
+      save({ undo: undo.filter(keep), redo: redo.filter(keep) });
+    },
+    [save, latestRef]
+  );
+
+  return {
+    undoStack: history.undo,
+    redoStack: history.redo,
+    hydrate,
+    record,
+    undo,
+    redo,
+    undoTo,
+    forget,
+  };
+}
@@ -0,0 +1,676 @@
+import type { SwipeableCardHandle } from "@/components/swipeable-card";
+import { useAssetMetadataContext } from "@/contexts/asset-metadata-context";
+import { ImageAsset, useImageSwipe } from "@/contexts/image-swipe-context";
+import { HistoryEntry } from "@/hooks/use-swipe-history";
+import { findSeries } from "@/utils/series";
+import { SortOrder } from "@/utils/sort-order";
+import {
+  addAssetToAlbum,
+  directionForAction,
+  shareAsset,
+  SwipeAction,
+  SwipeDirection,
+} from "@/utils/swipe-actions";
+import * as MediaLibrary from "expo-media-library";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+// Load the next page once fewer than this many images are left ahead
+const PREFETCH_THRESHOLD = 50;
+
+// Whether the loaded pages have gone past where the target would be, so it
+// isn't in the query. Only pages of the streamed orders are loaded, and those
+// come in creation time order.
+const isPastTarget = (
+  lastLoaded: ImageAsset,
+  target: SeekTarget,
+  sortOrder: SortOrder
+) =>
+  sortOrder === "oldest"
+    ? lastLoaded.creationTime > target.creationTime
+    : lastLoaded.creationTime < target.creationTime;
+
+// Look up the image to start from. Resolves to null when it is no longer in
+// the library, so seeking doesn't page through to the end looking for it.
+const lookUpSeekTarget = async (
+  imageId: string,
+  loaded: ImageAsset | undefined
+): Promise<SeekTarget | null> => {
+  if (loaded) {
+    return { imageId, creationTime: loaded.creationTime };
+  }
+  try {
+    const info = await MediaLibrary.getAssetInfoAsync(imageId);
+    return info ? { imageId, creationTime: info.creationTime } : null;
+  } catch {
+    return null;
+  }
+};
+
+// seeking: finding the image to start from
+// idle: waiting for the user
+// animating: a button swipe is flying the top card out
+// undoing: an undone card is flying back in
+// committing: marked images are being moved to the trash
+export type SessionPhase =
+  "seeking" | "idle" | "animating" | "undoing" | "committing";
+
+// Where the deck is, by image ID so it holds while pages load, decisions
+// filter the deck and the library changes. A null imageId is the start of
+// the deck. When the image isn't in the deck (or after is set) the first
+// deck image following it is shown.
+export type DeckPosition = { imageId: string | null; after: boolean };
+
+// Image to start from, with its creation time so seeking can tell when the
+// loaded pages have gone past it
+export type SeekTarget = { imageId: string; creationTime: number };
+
+export type SessionState = {
+  phase: SessionPhase;
+  position: DeckPosition;
+  // Image to start from while seeking, undefined until it has been looked up
+  // and null to start from the beginning
+  seek: SeekTarget | null | undefined;
+  // Bumped when the deck starts over, so stale lookups are ignored
+  generation: number;
+  // Card a button is flying out
+  swipe: { imageId: string; direction: SwipeDirection } | null;
+  // Card to fly back in after an undo, from the side it was swiped to
+  restore: { imageId: string; fromDirection: SwipeDirection } | null;
+};
+
+export type SessionAction =
+  // The deck changed, find the image to start from again
+  | { type: "reset" }
+  | { type: "seekTarget"; generation: number; target: SeekTarget | null }
+  | { type: "seekDone"; position: DeckPosition }
+  // The shown image left the library, show the one that took its place
+  | { type: "move"; position: DeckPosition }
+  | { type: "swipeRequested"; imageId: string; direction: SwipeDirection }
+  | { type: "swipeCancelled" }
+  | { type: "decided"; position: DeckPosition }
+  | { type: "undoStarted"; imageId: string; fromDirection: SwipeDirection }
+  | { type: "undoFinished" }
+  | { type: "commitStarted"; position: DeckPosition }
+  | { type: "commitFinished" };
+
+const START: DeckPosition = { imageId: null, after: false };
+
+const INITIAL_STATE: SessionState = {
+  phase: "seeking",
+  position: START,
+  seek: undefined,
+  generation: 0,
+  swipe: null,
+  restore: null,
+};
+
+// Transitions that don't apply in the current phase leave the state as is
+export function sessionReducer(
+  state: SessionState,
+  action: SessionAction
+): SessionState {
+  switch (action.type) {
+    case "reset":
+      return { ...INITIAL_STATE, generation: state.generation + 1 };
+    case "seekTarget":
+      if (
+        state.phase !== "seeking" ||
+        state.generation !== action.generation ||
+        state.seek !== undefined
+      ) {
+        return state;
+      }
+      return { ...state, seek: action.target };
+    case "seekDone":
+      if (state.phase !== "seeking") {
+        return state;
+      }
+      return { ...state, phase: "idle", position: action.position };
+    case "move":
+      if (state.phase === "seeking") {
+        return state;
+      }
+      return { ...state, position: action.position };
+    case "swipeRequested":
+      if (state.phase !== "idle") {
+        return state;
+      }
+      return {
+        ...state,
+        phase: "animating",
+        swipe: { imageId: action.imageId, direction: action.direction },
+      };
+    case "swipeCancelled":
+      if (state.phase !== "animating") {
+        return state;
+      }
+      return { ...state, phase: "idle", swipe: null };
+    case "decided":
+      if (state.phase !== "idle" && state.phase !== "animating") {
+        return state;
+      }
+      return {
+        ...state,
+        phase: "idle",
+        position: action.position,
+        swipe: null,
+      };
+    case "undoStarted":
+      if (state.phase !== "idle") {
+        return state;
+      }
+      return {
+        ...state,
+        phase: "undoing",
+        position: { imageId: action.imageId, after: false },
+        restore: {
+          imageId: action.imageId,
+          fromDirection: action.fromDirection,
+        },
+      };
+    case "undoFinished":
+      if (state.phase !== "undoing") {
+        return state;
+      }
+      return { ...state, phase: "idle", restore: null };
+    case "commitStarted":
+      if (state.phase !== "idle") {
+        return state;
+      }
+      return { ...state, phase: "committing", position: action.position };
+    case "commitFinished":
+      if (state.phase !== "committing") {
+        return state;
+      }
+      return { ...state, phase: "idle" };
+  }
+}
+
+export type CommitResult = {
+  count: number;
+  bytes: number;
+  // False when some sizes couldn't be measured, so bytes is a lower bound
+  allMeasured: boolean;
+  // Nothing is left in the deck
+  deckEmptied: boolean;
+};
+
+// The review session behind the home screen: which image is shown, swipes,
+// undo and redo, and committing deletions. Actions only apply in the phases
+// that allow them, so e.g. a swipe during an undo animation is ignored.
+export function useSwipeSession({
+  startImageId,
+  onDeckFinished,
+  onActionFailed,
+}: {
+  // Image to start from instead of the last viewed one
+  startImageId?: string;
+  // Called when the last image has been decided
+  onDeckFinished: () => void;
+  // Called when a swipe action couldn't run. Without an error it wasn't
+  // tried, e.g. no album has been picked for "add to album".
+  onActionFailed: (action: SwipeAction, error?: unknown) => void;
+}) {
+  const {
+    decisions,
+    markedForDeletion,
+    recordDecisions,
+    undoDecision,
+    redoDecision,
+    undoDecisionsTo,
+    forgetHistory,
+    clearDeletion,
+    images,
+    imagesLoading,
+    hasMoreImages,
+    loadMoreImages,
+    mediaFilter,
+    selectedAlbumId,
+    reviewScope,
+    sortOrder,
+    unreviewedOnly,
+    seriesWindowSeconds,
+    reviewQueue,
+    screenshotMinAgeDays,
+    moveToTrash,
+    removeFromPersistedKeep,
+    removeFromPersistedDeletion,
+    saveLastViewedImage,
+    loadLastViewedImage,
+    swipeActionMap,
+    swipeActionAlbumId,
+  } = useImageSwipe();
+  const { loadMetadata } = useAssetMetadataContext();
+
+  const [state, setState] = useState(INITIAL_STATE);
+  const topCardRef = useRef<SwipeableCardHandle>(null);
+  // Always the latest state, so actions taken before React re-renders see it
+  const latestRef = useRef(INITIAL_STATE);
+  const send = useCallback((action: SessionAction) => {
+    const next = sessionReducer(latestRef.current, action);
+    if (next === latestRef.current) {
+      return false;
+    }
+    latestRef.current = next;
+    setState(next);
+    return true;
+  }, []);
+  // Actions are only taken on what the screen shows
+  const isCurrent = () => latestRef.current === state;
+
+  // In "unreviewed only" mode a swiped image leaves the deck right away and
+  // comes back when its decision is undone. Images set aside for later stay
+  // in the "later" queue.
+  const deck = useMemo(
+    () =>
+      unreviewedOnly
+        ? images.filter((img) => {
+            const decision = decisions.get(img.id);
+            return (
+              decision === undefined ||
+              (decision === "skip" && reviewQueue === "later")
+            );
+          })
+        : images,
+    [unreviewedOnly, images, decisions, reviewQueue]
+  );
+  const orderById = useMemo(
+    () => new Map(images.map((img, i) => [img.id, i])),
+    [images]
+  );
+
+  // Series are found across all loaded images so positions don't change as
+  // images are reviewed
+  const seriesById = useMemo(
+    () => findSeries(images, seriesWindowSeconds),
+    [images, seriesWindowSeconds]
+  );
+
+  // Deck index of the position, the deck length past the last image, or -1
+  // when its image is no longer in the library
+  const resolvedIndex = useMemo(() => {
+    const { imageId, after } = state.position;
+    if (imageId === null) {
+      return 0;
+    }
+    const order = orderById.get(imageId);
+    if (order === undefined) {
+      return -1;
+    }
+    const from = after ? order + 1 : order;
+    const index = deck.findIndex((img) => (orderById.get(img.id) ?? 0) >= from);
+    return index === -1 ? deck.length : index;
+  }, [state.position, orderById, deck]);
+
+  // Last index that could be resolved, to fall back on
+  const lastIndexRef = useRef(0);
+  const currentIndex =
+    resolvedIndex !== -1
+      ? resolvedIndex
+      : Math.max(0, Math.min(lastIndexRef.current, deck.length - 1));
+  const currentImage: ImageAsset | undefined = deck[currentIndex];
+
+  useEffect(() => {
+    if (resolvedIndex !== -1) {
+      lastIndexRef.current = resolvedIndex;
+      return;
+    }
+    // The image left the library, stay at the same place in the deck
+    const replacement = deck[currentIndex];
+    send({
+      type: "move",
+      position: replacement ? { imageId: replacement.id, after: false } : START,
+    });
+  }, [resolvedIndex, deck, currentIndex, send]);
+
+  // Start over from the last viewed image when the filter, album, scope, sort
+  // order, review mode or queue changes the deck
+  const deckKey = `${mediaFilter}:${selectedAlbumId ?? ""}:${sortOrder}:${unreviewedOnly}:${reviewQueue}:${screenshotMinAgeDays}:${JSON.stringify(
+    reviewScope
+  )}`;
+  const deckKeyRef = useRef(deckKey);
+  useEffect(() => {
+    if (deckKeyRef.current === deckKey) {
+      return;
+    }
+    deckKeyRef.current = deckKey;
+    send({ type: "reset" });
+  }, [deckKey, send]);
+
+  // Find the image to start from, loading further pages until it is found
+  useEffect(() => {
+    if (state.phase !== "seeking" || imagesLoading || images.length === 0) {
+      return;
+    }
+    const { seek, generation } = state;
+    if (seek === undefined) {
+      const findTarget = async () => {
+        const imageId = startImageId ?? (await loadLastViewedImage());
+        const order = imageId ? orderById.get(imageId) : undefined;
+        const target = imageId
+          ? await lookUpSeekTarget(
+              imageId,
+              order === undefined ? undefined : images[order]
+            )
+          : null;
+        send({ type: "seekTarget", generation, target });
+      };
+      findTarget();
+      return;
+    }
+    if (seek === null || orderById.has(seek.imageId)) {
+      // A reviewed target starts from the next image in the deck
+      send({
+        type: "seekDone",
+        position: seek ? { imageId: seek.imageId, after: false } : START,
+      });
+    } else if (
+      hasMoreImages &&
+      !isPastTarget(images[images.length - 1], seek, sortOrder)
+    ) {
+      // Not loaded yet, this effect runs again once the next page arrives
+      loadMoreImages();
+    } else {
+      // Not in this deck, e.g. filtered out or in the trash
+      send({ type: "seekDone", position: START });
+    }
+  }, [
+    state,
+    imagesLoading,
+    images,
+    sortOrder,
+    orderById,
+    hasMoreImages,
+    startImageId,
+    loadLastViewedImage,
+    loadMoreImages,
+    send,
+  ]);
+
+  // Fetch the next page before the deck runs out of loaded images. Checked
+  // again after every page, since in "unreviewed only" mode a page of
+  // reviewed images leaves the deck as it was.
+  useEffect(() => {
+    if (
+      !imagesLoading &&
+      hasMoreImages &&
+      deck.length - currentIndex <= PREFETCH_THRESHOLD
+    ) {
+      loadMoreImages();
+    }
+  }, [
+    currentIndex,
+    deck.length,
+    images.length,
+    imagesLoading,
+    hasMoreImages,
+    loadMoreImages,
+  ]);
+
+  // Remember where the user is, once nothing is in flight
+  const currentImageId = currentImage?.id;
+  useEffect(() => {
+    if (state.phase === "idle" && currentImageId) {
+      saveLastViewedImage(currentImageId);
+    }
+  }, [state.phase, currentImageId, saveLastViewedImage]);
+
+  // A card that is no longer on top has nothing left to animate
+  const { swipe, restore } = state;
+  useEffect(() => {
+    if (state.phase === "animating" && swipe?.imageId !== currentImageId) {
+      send({ type: "swipeCancelled" });
+    }
+  }, [state.phase, swipe, currentImageId, send]);
+
+  // Fly an undone image back in once its card is on top
+  const restoringRef = useRef<SessionState["restore"]>(null);
+  useEffect(() => {
+    if (state.phase !== "undoing" || !restore) {
+      return;
+    }
+    const card = topCardRef.current;
+    if (restore.imageId !== currentImageId || !card) {
+      // The image didn't come back into the deck
+      send({ type: "undoFinished" });
+      return;
+    }
+    if (restoringRef.current === restore) {
+      return;
+    }
+    restoringRef.current = restore;
+    card
+      .restore(restore.fromDirection)
+      .then(() => send({ type: "undoFinished" }));
+  }, [state.phase, restore, currentImageId, send]);
+
+  // Position after deciding on imageId. Stays put at the end of the deck,
+  // unless the decided image leaves it.
+  const positionAfter = (imageId: string): DeckPosition => {
+    const order = orderById.get(imageId) ?? -1;
+    const hasNext = deck.some((img) => (orderById.get(img.id) ?? 0) > order);
+    if (!hasNext && !hasMoreImages) {
+      onDeckFinished();
+      if (!unreviewedOnly) {
+        return { imageId: currentImage?.id ?? null, after: false };
+      }
+    }
+    return { imageId, after: true };
+  };
+
+  // Whether the action bound to direction can run, reporting it if not
+  const canRun = (direction: SwipeDirection) => {
+    const action = swipeActionMap[direction];
+    if (action === "album" && !swipeActionAlbumId) {
+      onActionFailed(action);
+      return false;
+    }
+    return true;
+  };
+
+  // Run the action bound to direction on imageId. Everything but delete and
+  // skip keeps the image; favoriting can be undone along with the decision,
+  // adding to an album and sharing can't.
+  const decideOn = (imageId: string, direction: SwipeDirection) => {
+    const action = swipeActionMap[direction];
+    const decision =
+      action === "delete" ? "delete" : action === "skip" ? "skip" : "keep";
+    recordDecisions(imageId, [{ imageId, decision }], {
+      favorite: action === "favorite",
+    });
+    send({ type: "decided", position: positionAfter(imageId) });
+
+    if (action === "album" && swipeActionAlbumId) {
+      addAssetToAlbum(imageId, swipeActionAlbumId).catch((error) => {
+        console.error("Error adding to album:", error);
+        onActionFailed(action, error);
+      });
+    } else if (action === "share") {
+      shareAsset(imageId).catch((error) => {
+        console.error("Error sharing:", error);
+        onActionFailed(action, error);
+      });
+    }
+  };
+
+  // Decide on the top card once the user has swiped it away
+  const decide = (direction: SwipeDirection) => {
+    if (!isCurrent() || latestRef.current.phase !== "idle" || !currentImage) {
+      return;
+    }
+    if (!canRun(direction)) {
+      topCardRef.current?.reset();
+      return;
+    }
+    decideOn(currentImage.id, direction);
+  };
+
+  // Fly the top card out, then decide on it
+  const requestSwipe = async (direction: SwipeDirection) => {
+    const image = currentImage;
+    const card = topCardRef.current;
+    if (!isCurrent() || !image || !card || !canRun(direction)) return;
+    if (!send({ type: "swipeRequested", imageId: image.id, direction })) {
+      return;
+    }
+    await card.swipe(direction);
+    // The session may have moved on while the card was flying
+    if (latestRef.current.swipe?.imageId === image.id) {
+      decideOn(image.id, direction);
+    } else {
+      await card.reset();
+    }
+  };
+
+  // Keep the top card and mark the rest of its series for deletion
+  const keepSeriesShot = () => {
+    const series = currentImage && seriesById.get(currentImage.id);
+    if (!isCurrent() || latestRef.current.phase !== "idle" || !series) return;
+
+    // Shots the user already decided on are left as they are
+    const toMark = series.ids.filter(
+      (id) => id !== currentImage.id && !decisions.has(id)
+    );
+    recordDecisions(currentImage.id, [
+      { imageId: currentImage.id, decision: "keep" },
+      ...toMark.map((id) => ({ imageId: id, decision: "delete" as const })),
+    ]);
+
+    // Continue with the first image after the series
+    const lastInSeries = series.ids.reduce((last, id) =>
+      (orderById.get(id) ?? -1) > (orderById.get(last) ?? -1) ? id : last
+    );
+    send({ type: "decided", position: positionAfter(lastInSeries) });
+  };
+
+  // Go back to the image of the oldest undone step and fly it back in.
+  // undone is latest first, as returned by the context.
+  const returnToUndoneSteps = (undone: HistoryEntry[]) => {
+    const target = undone[undone.length - 1];
+    if (!target || !orderById.has(target.imageId)) {
+      // Not loaded, the decisions are undone anyway
+      return;
+    }
+    // Come back from the side the step's action is bound to
+    const next = target.changes.find(
+      (change) => change.imageId === target.imageId
+    )?.next;
+    const actions: SwipeAction[] = target.favorite
+      ? ["favorite"]
+      : next === "delete"
+        ? ["delete"]
+        : next === "skip"
+          ? ["skip"]
+          : ["keep", "album", "share"];
+    const fromDirection =
+      actions
+        .map((action) => directionForAction(swipeActionMap, action))
+        .find((direction) => direction !== undefined) ?? "right";
+    send({
+      type: "undoStarted",
+      imageId: target.imageId,
+      fromDirection,
+    });
+  };
+
+  const undo = () => {
+    if (!isCurrent() || latestRef.current.phase !== "idle") return;
+    const entry = undoDecision();
+    if (entry) {
+      returnToUndoneSteps([entry]);
+    }
+  };
+
+  // Undo the step at index in the history and everything after it
+  const jumpBack = (index: number) => {
+    if (!isCurrent() || latestRef.current.phase !== "idle") return;
+    returnToUndoneSteps(undoDecisionsTo(index));
+  };
+
+  // Redo the latest undone step and continue after its image, as if it had
+  // just been swiped
+  const redo = () => {
+    if (!isCurrent() || latestRef.current.phase !== "idle") return;
+    const entry = redoDecision();
+    if (entry && orderById.has(entry.imageId)) {
+      send({
+        type: "decided",
+        position: { imageId: entry.imageId, after: true },
+      });
+    }
+  };
+
+  // Move the marked images to the trash. Resolves to null when the session
+  // is busy; throws when the images couldn't be moved.
+  const commitDeletion = async (): Promise<CommitResult | null> => {
+    if (!isCurrent() || markedForDeletion.size === 0) {
+      return null;
+    }
+    const imageIdsToDelete = Array.from(markedForDeletion);
+    const markedSet = new Set(markedForDeletion);
+
+    // Stay on the current image, or the nearest one that isn't trashed
+    const currentIndexInDeck = currentImage ? currentIndex : 0;
+    const survivor =
+      deck.slice(currentIndexInDeck).find((img) => !markedSet.has(img.id)) ??
+      deck
+        .slice(0, currentIndexInDeck)
+        .reverse()
+        .find((img) => !markedSet.has(img.id));
+    const position = survivor ? { imageId: survivor.id, after: false } : START;
+    if (!send({ type: "commitStarted", position })) {
+      return null;
+    }
+
+    try {
+      // Measure for the result, the space comes back once purged
+      const sizes = await loadMetadata(imageIdsToDelete);
+      let bytes = 0;
+      sizes.forEach((info) => {
+        bytes += info.fileSize ?? 0;
+      });
+      const allMeasured = imageIdsToDelete.every(
+        (id) => sizes.get(id)?.fileSize != null
+      );
+
+      // Move the marked assets to the trash, which hides them from the deck
+      await moveToTrash(imageIdsToDelete);
+
+      // Remove trashed images from persisted storage (both keep and deletion)
+      await removeFromPersistedKeep(imageIdsToDelete);
+      await removeFromPersistedDeletion(imageIdsToDelete);
+
+      // Clear the marked set
+      clearDeletion();
+
+      // Steps on trashed images can't be undone any more
+      forgetHistory(imageIdsToDelete);
+
+      return {
+        count: imageIdsToDelete.length,
+        bytes,
+        allMeasured,
+        deckEmptied: survivor === undefined,
+      };
+    } finally {
+      send({ type: "commitFinished" });
+    }
+  };
+
+  return {
+    phase: state.phase,
+    deck,
+    currentIndex,
+    currentImage,
+    seriesById,
+    // Handle for the card on top of the deck
+    topCardRef,
+    decide,
+    requestSwipe,
+    keepSeriesShot,
+    undo,
+    jumpBack,
+    redo,
+    commitDeletion,
+  };
+}
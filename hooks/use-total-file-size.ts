@@ -0,0 +1,26 @@
+import { useEffect, useMemo } from "react";
+import { useAssetMetadataContext } from "@/contexts/asset-metadata-context";
+
+// Combined size of the given assets, measured in the background. complete is
+// false while files are still being measured or when some can't be (e.g. in
+// iCloud), so bytes is then a lower bound.
+export function useTotalFileSize(assetIds: ReadonlySet<string>) {
+  const { metadata, requestMetadata } = useAssetMetadataContext();
+
+  useEffect(() => {
+    requestMetadata([...assetIds]);
+  }, [assetIds, requestMetadata]);
+
+  return useMemo(() => {
+    let bytes = 0;
+    let measured = 0;
+    assetIds.forEach((id) => {
+      const size = metadata.get(id)?.fileSize;
+      if (size != null) {
+        bytes += size;
+        measured++;
+      }
+    });
+    return { bytes, complete: measured === assetIds.size };
+  }, [assetIds, metadata]);
+}
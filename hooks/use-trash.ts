@@ -0,0 +1,83 @@
+import { useCallback, useRef, useState } from "react";
+import { SwipeStorage } from "@/storage/swipe-storage";
+
+// Asset ID -> when it was moved to the trash (ms since epoch)
+export type TrashMap = ReadonlyMap<string, number>;
+
+// Days an asset stays in the trash before it's deleted for good
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 60, 90];
+
+const TRASH_KEY = "@swipe:trash";
+
+const EMPTY_TRASH: TrashMap = new Map();
+
+// Read the stored trash, skipping entries that aren't an ID and a time
+const parseTrash = (stored: string | null): TrashMap => {
+  if (!stored) {
+    return EMPTY_TRASH;
+  }
+  const parsed: unknown = JSON.parse(stored);
+  if (typeof parsed !== "object" || parsed === null) {
+    return EMPTY_TRASH;
+  }
+  return new Map(
+    Object.entries(parsed).filter(
+      (entry): entry is [string, number] =>
+        typeof entry[1] === "number" && Number.isFinite(entry[1])
+    )
+  );
+};
+
+// Assets the user committed for deletion but that are still in the library.
+// They stay hidden from the deck until restored or purged.
+export function useTrash(storage: SwipeStorage) {
+  const [trash, setTrash] = useState<TrashMap>(EMPTY_TRASH);
+  // Always the latest trash, even before React re-renders
+  const latestRef = useRef<TrashMap>(EMPTY_TRASH);
+
+  const save = useCallback(
+    async (next: TrashMap) => {
+      latestRef.current = next;
+      setTrash(next);
+      await storage.setItem(
+        TRASH_KEY,
+        JSON.stringify(Object.fromEntries(next))
+      );
+    },
+    [storage]
+  );
+
+  const hydrate = useCallback(async () => {
+    const loaded = parseTrash(await storage.getItem(TRASH_KEY));
+    latestRef.current = loaded;
+    setTrash(loaded);
+  }, [storage]);
+
+  const add = useCallback(
+    (assetIds: string[]) => {
+      const next = new Map(latestRef.current);
+      const now = Date.now();
+      assetIds.forEach((id) => next.set(id, now));
+      return save(next);
+    },
+    [save]
+  );
+
+  const remove = useCallback(
+    async (assetIds: string[]) => {
+      const toRemove = assetIds.filter((id) => latestRef.current.has(id));
+      if (toRemove.length === 0) {
+        return;
+      }
+      const next = new Map(latestRef.current);
+      toRemove.forEach((id) => next.delete(id));
+      await save(next);
+    },
+    [save]
+  );
+
+  const getTrash = useCallback(() => latestRef.current, []);
+
+  return { trash, hydrate, add, remove, getTrash };
+}
@@ -0,0 +1,83 @@
+import { File, Paths } from "expo-file-system";
+
+// Asset ID -> value, with the modification time it was worked out for so
+// edited assets are worked out again
+type CacheEntry<T> = { value: T; modificationTime: number };
+
+// Values worked out per asset, kept across app runs in a JSON file. They can
+// always be worked out again, so the file lives in the cache directory where
+// the system may clear it. name is only used in error messages.
+export function createAssetCache<T>(
+  fileName: string,
+  name: string,
+  isValue: (value: unknown) => value is T
+) {
+  const entries = new Map<string, CacheEntry<T>>();
+  let loading: Promise<void> | null = null;
+  let dirty = false;
+
+  const cacheFile = () => new File(Paths.cache, fileName);
+
+  const readCacheFile = async () => {
+    try {
+      const file = cacheFile();
+      if (!file.exists) {
+        return;
+      }
+      const stored = JSON.parse(await file.text()) as Record<
+        string,
+        Partial<CacheEntry<unknown>> | null
+      >;
+      Object.entries(stored).forEach(([id, entry]) => {
+        if (
+          entry &&
+          isValue(entry.value) &&
+          typeof entry.modificationTime === "number"
+        ) {
+          entries.set(id, {
+            value: entry.value,
+            modificationTime: entry.modificationTime,
+          });
+        }
+      });
+    } catch (error) {
+      // A damaged cache is simply rebuilt
+      console.error(`Error reading ${name} cache:`, error);
+    }
+  };
+
+  return {
+    // Read the cache file once per app run
+    load: () => {
+      if (!loading) {
+        loading = readCacheFile();
+      }
+      return loading;
+    },
+    get: (assetId: string, modificationTime: number): T | undefined => {
+      const entry = entries.get(assetId);
+      return entry?.modificationTime === modificationTime
+        ? entry.value
+        : undefined;
+    },
+    set: (assetId: string, modificationTime: number, value: T) => {
+      entries.set(assetId, { value, modificationTime });
+      dirty = true;
+    },
+    save: () => {
+      if (!dirty) {
+        return;
+      }
+      try {
+        const file = cacheFile();
+        if (!file.exists) {
+          file.create();
+        }
+        file.write(JSON.stringify(Object.fromEntries(entries)));
+        dirty = false;
+      } catch (error) {
+        console.error(`Error saving ${name} cache:`, error);
+      }
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  CURRENT_SCHEMA_VERSION,
+  Decision,
+  loadPersistedState,
+  savePersistedState,
+} from "@/storage/persisted-state";
+import { SwipeStorage } from "@/storage/swipe-storage";
+
+// Decisions in one versioned JSON document, settings as separate keys
+export function createAsyncSwipeStorage(): SwipeStorage {
+  // The whole document is rewritten on save, so keep a copy to apply changes to
+  const decisions: Record<string, Decision> = {};
+  // Set when the stored document is from a newer version of the app
+  let readOnly = false;
+
+  return {
+    loadDecisions: async () => {
+      const loaded = await loadPersistedState();
+      readOnly = loaded.readOnly;
+      Object.keys(decisions).forEach((id) => delete decisions[id]);
+      Object.assign(decisions, loaded.state.decisions);
+      return {
+        decisions: { ...decisions },
+        recovered: loaded.recovered,
+        readOnly,
+      };
+    },
+    saveDecisions: async ({ set, removed }) => {
+      if (readOnly) {
+        throw new Error("Saved decisions are from a newer version of the app");
+      }
+      Object.assign(decisions, set);
+      removed.forEach((id) => delete decisions[id]);
+      await savePersistedState({ version: CURRENT_SCHEMA_VERSION, decisions });
+    },
+    getItem: (key) => AsyncStorage.getItem(key),
+    setItem: (key, value) => AsyncStorage.setItem(key, value),
+    removeItem: (key) => AsyncStorage.removeItem(key),
+  };
+}
@@ -0,0 +1,237 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Versioned document holding the user's decisions
+const PERSISTED_STATE_KEY = "@swipe:state";
+// Values that could not be read are kept here instead of being thrown away
+export const CORRUPT_BACKUP_KEY = "@swipe:state_corrupt_backup";
+
+// Keys written before the versioned document existed (schema v0)
+const LEGACY_KEPT_IMAGES_KEY = "@swipe:kept_images";
+const LEGACY_DELETION_IMAGES_KEY = "@swipe:deletion_images";
+
+// Every AsyncStorage key that holds decisions rather than settings
+export const PERSISTED_STATE_KEYS = [
+  PERSISTED_STATE_KEY,
+  CORRUPT_BACKUP_KEY,
+  LEGACY_KEPT_IMAGES_KEY,
+  LEGACY_DELETION_IMAGES_KEY,
+];
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// "skip" means the user chose to decide later
+export type Decision = "keep" | "delete" | "skip";
+
+const DECISIONS: readonly Decision[] = ["keep", "delete", "skip"];
+
+export type PersistedState = {
+  version: typeof CURRENT_SCHEMA_VERSION;
+  // Exactly one decision per asset ID
+  decisions: Record<string, Decision>;
+};
+
+export type PersistedStateLoadResult = {
+  state: PersistedState;
+  // True when unreadable or invalid data had to be discarded
+  recovered: boolean;
+  // True when the stored document was written by a newer version of the
+  // app. It must not be saved over until the app is updated.
+  readOnly: boolean;
+};
+
+// Any schema version, as read from storage
+type VersionedDocument = { version: number } & Record<string, unknown>;
+
+export const createEmptyPersistedState = (): PersistedState => ({
+  version: CURRENT_SCHEMA_VERSION,
+  decisions: {},
+});
+
+// Keep only unique string IDs, reporting whether anything invalid was dropped
+const sanitizeIds = (value: unknown): { ids: string[]; valid: boolean } => {
+  if (!Array.isArray(value)) {
+    return { ids: [], valid: value === undefined };
+  }
+  const strings = value.filter((id): id is string => typeof id === "string");
+  return {
+    ids: Array.from(new Set(strings)),
+    valid: strings.length === value.length,
+  };
+};
+
+// Upgrades a document from the version it is keyed by to the next one
+const MIGRATIONS: Record<
+  number,
+  (doc: VersionedDocument) => VersionedDocument
+> = {
+  // v0 -> v1: the two bare arrays move into one document
+  0: (doc) => ({
+    version: 1,
+    keptIds: doc.keptIds,
+    deletionIds: doc.deletionIds,
+  }),
+  // v1 -> v2: the two sets become one decision per asset. Keeping a photo
+  // never used to clear its deletion mark, so an ID in both sets is kept.
+  1: (doc) => {
+    const kept = sanitizeIds(doc.keptIds);
+    const deletion = sanitizeIds(doc.deletionIds);
+    const decisions: Record<string, Decision> = {};
+    deletion.ids.forEach((id) => (decisions[id] = "delete"));
+    kept.ids.forEach((id) => (decisions[id] = "keep"));
+    return {
+      version: 2,
+      decisions,
+      // Carried to validation so dropped IDs are still reported
+      droppedInvalidIds: !kept.valid || !deletion.valid,
+    };
+  },
+};
+
+const isVersionedDocument = (value: unknown): value is VersionedDocument =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as { version?: unknown }).version === "number";
+
+export const isDecision = (value: unknown): value is Decision =>
+  DECISIONS.includes(value as Decision);
+
+// Validate a current-version document, dropping unknown decisions
+const validate = (
+  doc: VersionedDocument
+): { state: PersistedState; valid: boolean } => {
+  const raw = doc.decisions;
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return {
+      state: createEmptyPersistedState(),
+      valid: raw === undefined,
+    };
+  }
+  const entries = Object.entries(raw);
+  const decisions: Record<string, Decision> = {};
+  entries.forEach(([id, decision]) => {
+    if (isDecision(decision)) {
+      decisions[id] = decision;
+    }
+  });
+  return {
+    state: { version: CURRENT_SCHEMA_VERSION, decisions },
+    valid:
+      doc.droppedInvalidIds !== true &&
+      Object.keys(decisions).length === entries.length,
+  };
+};
+
+const backUpCorruptValue = async (key: string, raw: string) => {
+  try {
+    await AsyncStorage.setItem(
+      CORRUPT_BACKUP_KEY,
+      JSON.stringify({ key, raw, backedUpAt: Date.now() })
+    );
+  } catch (error) {
+    console.error("Error backing up corrupt persisted state:", error);
+  }
+};
+
+// Parse a stored JSON value, backing it up if it can't be parsed
+const parseStored = async (
+  key: string,
+  raw: string | null
+): Promise<{ value: unknown; corrupt: boolean }> => {
+  if (raw === null) {
+    return { value: undefined, corrupt: false };
+  }
+  try {
+    return { value: JSON.parse(raw), corrupt: false };
+  } catch {
+    await backUpCorruptValue(key, raw);
+    return { value: undefined, corrupt: true };
+  }
+};
+
+// Build a v0 document from the legacy keys
+const readLegacyDocument = async (): Promise<{
+  doc: VersionedDocument;
+  corrupt: boolean;
+}> => {
+  const [kept, deletion] = await Promise.all([
+    AsyncStorage.getItem(LEGACY_KEPT_IMAGES_KEY).then((raw) =>
+      parseStored(LEGACY_KEPT_IMAGES_KEY, raw)
+    ),
+    AsyncStorage.getItem(LEGACY_DELETION_IMAGES_KEY).then((raw) =>
+      parseStored(LEGACY_DELETION_IMAGES_KEY, raw)
+    ),
+  ]);
+  return {
+    doc: { version: 0, keptIds: kept.value, deletionIds: deletion.value },
+    corrupt: kept.corrupt || deletion.corrupt,
+  };
+};
+
+// Read the stored document, falling back to the legacy keys
+const readDocument = async (): Promise<{
+  doc: VersionedDocument;
+  fromLegacy: boolean;
+  corrupt: boolean;
+}> => {
+  const raw = await AsyncStorage.getItem(PERSISTED_STATE_KEY);
+  const stored = await parseStored(PERSISTED_STATE_KEY, raw);
+  if (isVersionedDocument(stored.value)) {
+    return { doc: stored.value, fromLegacy: false, corrupt: false };
+  }
+
+  // Unparseable, or valid JSON that isn't a document
+  const corrupt = raw !== null;
+  if (corrupt && !stored.corrupt) {
+    await backUpCorruptValue(PERSISTED_STATE_KEY, raw);
+  }
+  const legacy = await readLegacyDocument();
+  return {
+    doc: legacy.doc,
+    fromLegacy: true,
+    corrupt: corrupt || legacy.corrupt,
+  };
+};
+
+// Read the persisted state, migrating older schemas to the current one
+export async function loadPersistedState(): Promise<PersistedStateLoadResult> {
+  const read = await readDocument();
+  let doc = read.doc;
+
+  // Written by a newer version of the app, which this one can't read.
+  // Leave it as it is for when the app is updated.
+  if (doc.version > CURRENT_SCHEMA_VERSION) {
+    return {
+      state: createEmptyPersistedState(),
+      recovered: false,
+      readOnly: true,
+    };
+  }
+
+  const startVersion = doc.version;
+  while (doc.version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[doc.version];
+    if (!migrate) {
+      throw new Error(`No migration from schema version ${doc.version}`);
+    }
+    doc = migrate(doc);
+  }
+
+  const { state, valid } = validate(doc);
+  const recovered = read.corrupt || !valid;
+
+  if (startVersion !== CURRENT_SCHEMA_VERSION || recovered) {
+    await savePersistedState(state);
+  }
+  if (read.fromLegacy) {
+    await AsyncStorage.multiRemove([
+      LEGACY_KEPT_IMAGES_KEY,
+      LEGACY_DELETION_IMAGES_KEY,
+    ]);
+  }
+
+  return { state, recovered, readOnly: false };
+}
+
+export async function savePersistedState(state: PersistedState) {
+  await AsyncStorage.setItem(PERSISTED_STATE_KEY, JSON.stringify(state));
+}
@@ -0,0 +1,232 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SQLite from "expo-sqlite";
+import {
+  CORRUPT_BACKUP_KEY,
+  Decision,
+  isDecision,
+  loadPersistedState,
+  PERSISTED_STATE_KEYS,
+} from "@/storage/persisted-state";
+import { SwipeStorage } from "@/storage/swipe-storage";
+
+const DATABASE_NAME = "swipe.db";
+// Stored in PRAGMA user_version, bumped whenever the tables change
+const DATABASE_VERSION = 2;
+// Row in the imports table once AsyncStorage data has been copied over
+const ASYNC_STORAGE_IMPORT = "async_storage";
+
+type DecisionRow = { id: string; decision: string };
+
+// Bring the tables up to DATABASE_VERSION. Only changes the schema, data is
+// imported separately.
+const migrate = async (db: SQLite.SQLiteDatabase, fromVersion: number) => {
+  if (fromVersion < 1) {
+    await db.execAsync("PRAGMA journal_mode = WAL");
+  }
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    if (fromVersion < 1) {
+      await txn.execAsync(`
+        CREATE TABLE IF NOT EXISTS decisions (
+          id TEXT PRIMARY KEY NOT NULL,
+          decision TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY NOT NULL,
+          value TEXT NOT NULL
+        );
+      `);
+    }
+    if (fromVersion < 2) {
+      await txn.execAsync(`
+        CREATE TABLE IF NOT EXISTS imports (
+          name TEXT PRIMARY KEY NOT NULL,
+          imported_at INTEGER NOT NULL
+        );
+      `);
+      // Version 1 databases imported AsyncStorage when they were created
+      if (fromVersion === 1) {
+        await txn.runAsync(
+          "INSERT OR IGNORE INTO imports (name, imported_at) VALUES (?, ?)",
+          ASYNC_STORAGE_IMPORT,
+          Date.now()
+        );
+      }
+    }
+    await txn.execAsync(`PRAGMA user_version = ${DATABASE_VERSION}`);
+  });
+};
+
+// Copy everything saved by the AsyncStorage implementation into the tables,
+// once, then remove it from AsyncStorage. Resolves to whether damaged
+// decisions had to be skipped and whether the data is from a newer version
+// of the app, in which case nothing is copied.
+const importFromAsyncStorage = async (db: SQLite.SQLiteDatabase) => {
+  const imported = await db.getFirstAsync(
+    "SELECT name FROM imports WHERE name = ?",
+    ASYNC_STORAGE_IMPORT
+  );
+  if (imported) {
+    return { recovered: false, readOnly: false };
+  }
+
+  const { state, recovered, readOnly } = await loadPersistedState();
+  if (readOnly) {
+    // Leave it for when the app is updated
+    return { recovered: false, readOnly: true };
+  }
+  const keys = (await AsyncStorage.getAllKeys()).filter(
+    (key) => key.startsWith("@swipe:") && !PERSISTED_STATE_KEYS.includes(key)
+  );
+  const settings = await AsyncStorage.multiGet(keys);
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    for (const [id, decision] of Object.entries(state.decisions)) {
+      await txn.runAsync(
+        "INSERT OR REPLACE INTO decisions (id, decision) VALUES (?, ?)",
+        id,
+        decision
+      );
+    }
+    for (const [key, value] of settings) {
+      if (value !== null) {
+        await txn.runAsync(
+          "INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)",
+          key,
+          value
+        );
+      }
+    }
+    await txn.runAsync(
+      "INSERT INTO imports (name, imported_at) VALUES (?, ?)",
+      ASYNC_STORAGE_IMPORT,
+      Date.now()
+    );
+  });
+
+  // Everything is in the tables now. Backups of damaged data stay.
+  try {
+    await AsyncStorage.multiRemove([
+      ...PERSISTED_STATE_KEYS.filter((key) => key !== CORRUPT_BACKUP_KEY),
+      ...keys,
+    ]);
+  } catch (error) {
+    console.error("Error clearing imported AsyncStorage data:", error);
+  }
+  return { recovered, readOnly: false };
+};
+
+// One row per decision, so saving only touches the rows that changed
+export function createSQLiteSwipeStorage(): SwipeStorage {
+  let opening: Promise<SQLite.SQLiteDatabase> | null = null;
+  // Set when the first open had to skip damaged data, reported on load
+  let importRecovered = false;
+  // Set when the database or the data waiting to be imported is from a newer
+  // version of the app. Nothing is read or written so it isn't overwritten.
+  let readOnly = false;
+
+  const open = async () => {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    const row = await db.getFirstAsync<{ user_version: number }>(
+      "PRAGMA user_version"
+    );
+    const version = row?.user_version ?? 0;
+    if (version > DATABASE_VERSION) {
+      readOnly = true;
+      return db;
+    }
+    if (version < DATABASE_VERSION) {
+      await migrate(db, version);
+    }
+    const result = await importFromAsyncStorage(db);
+    importRecovered = result.recovered;
+    readOnly = result.readOnly;
+    return db;
+  };
+
+  const getDatabase = () => {
+    if (!opening) {
+      opening = open().catch((error) => {
+        // Let the next call try again
+        opening = null;
+        throw error;
+      });
+    }
+    return opening;
+  };
+
+  // Open the database for a write, refusing while it's read-only
+  const getWritableDatabase = async () => {
+    const db = await getDatabase();
+    if (readOnly) {
+      throw new Error("Saved data is from a newer version of the app");
+    }
+    return db;
+  };
+
+  return {
+    loadDecisions: async () => {
+      const db = await getDatabase();
+      if (readOnly) {
+        return { decisions: {}, recovered: false, readOnly };
+      }
+      const rows = await db.getAllAsync<DecisionRow>(
+        "SELECT id, decision FROM decisions"
+      );
+      const decisions: Record<string, Decision> = {};
+      rows.forEach((row) => {
+        if (isDecision(row.decision)) {
+          decisions[row.id] = row.decision;
+        }
+      });
+      const recovered =
+        importRecovered || Object.keys(decisions).length !== rows.length;
+      importRecovered = false;
+      return { decisions, recovered, readOnly: false };
+    },
+    saveDecisions: async ({ set, removed }) => {
+      const db = await getWritableDatabase();
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        const upsert = await txn.prepareAsync(
+          "INSERT OR REPLACE INTO decisions (id, decision) VALUES ($id, $decision)"
+        );
+        const remove = await txn.prepareAsync(
+          "DELETE FROM decisions WHERE id = $id"
+        );
+        try {
+          for (const [id, decision] of Object.entries(set)) {
+            await upsert.executeAsync({ $id: id, $decision: decision });
+          }
+          for (const id of removed) {
+            await remove.executeAsync({ $id: id });
+          }
+        } finally {
+          await upsert.finalizeAsync();
+          await remove.finalizeAsync();
+        }
+      });
+    },
+    getItem: async (key) => {
+      const db = await getDatabase();
+      if (readOnly) {
+        return null;
+      }
+      const row = await db.getFirstAsync<{ value: string }>(
+        "SELECT value FROM settings WHERE key = ?",
+        key
+      );
+      return row?.value ?? null;
+    },
+    setItem: async (key, value) => {
+      const db = await getWritableDatabase();
+      await db.runAsync(
+        "INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)",
+        key,
+        value
+      );
+    },
+    removeItem: async (key) => {
+      const db = await getWritableDatabase();
+      await db.runAsync("DELETE FROM settings WHERE key = ?", key);
+    },
+  };
+}
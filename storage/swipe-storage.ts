@@ -0,0 +1,27 @@
+import { Decision } from "@/storage/persisted-state";
+
+export type DecisionsLoadResult = {
+  decisions: Record<string, Decision>;
+  // True when unreadable or invalid data had to be discarded
+  recovered: boolean;
+  // True when the decisions were saved by a newer version of the app and
+  // can't be read. Saving is refused so they aren't overwritten.
+  readOnly: boolean;
+};
+
+// Decisions that changed since the last save
+export type DecisionChanges = {
+  set: Record<string, Decision>;
+  removed: string[];
+};
+
+// Where ImageSwipeProvider keeps decisions and settings. Implementations
+// live next to this file and are picked in the root layout.
+export type SwipeStorage = {
+  loadDecisions: () => Promise<DecisionsLoadResult>;
+  saveDecisions: (changes: DecisionChanges) => Promise<void>;
+  // Small string settings, keyed like "@swipe:media_filter"
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+};
@@ -0,0 +1,77 @@
+import * as MediaLibrary from "expo-media-library";
+
+// Assets sent to the media library per delete call. Each call may show its
+// own system confirmation, so batches are kept fairly large.
+export const DELETE_BATCH_SIZE = 100;
+
+export type DeleteResult = {
+  deletedIds: string[];
+  // Could not be deleted, worth retrying
+  failedIds: string[];
+  // Not attempted because the user cancelled or declined a confirmation
+  skippedIds: string[];
+};
+
+// Only a lookup that finds nothing means the asset is gone. One that fails
+// says nothing, the asset may well still be in the library.
+const isGone = async (assetId: string) => {
+  try {
+    const info = await MediaLibrary.getAssetInfoAsync(assetId, {
+      shouldDownloadFromNetwork: false,
+    });
+    return !info;
+  } catch {
+    return false;
+  }
+};
+
+// A failed call may still have deleted part of the batch, so check which
+// assets are actually gone
+const findDeleted = async (assetIds: string[]) => {
+  const gone = await Promise.all(assetIds.map(isGone));
+  return new Set(assetIds.filter((_, i) => gone[i]));
+};
+
+// Delete assets a batch at a time. onProgress is called with the number of
+// assets handled after each batch; aborting the signal stops before the next
+// batch.
+export async function deleteAssetsInBatches(
+  assetIds: string[],
+  {
+    onProgress,
+    signal,
+  }: {
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<DeleteResult> {
+  const result: DeleteResult = {
+    deletedIds: [],
+    failedIds: [],
+    skippedIds: [],
+  };
+  for (let i = 0; i < assetIds.length; i += DELETE_BATCH_SIZE) {
+    const batch = assetIds.slice(i, i + DELETE_BATCH_SIZE);
+    if (signal?.aborted) {
+      result.skippedIds.push(...assetIds.slice(i));
+      break;
+    }
+    try {
+      const deleted = await MediaLibrary.deleteAssetsAsync(batch);
+      if (!deleted) {
+        // The user declined the system confirmation, stop asking
+        result.skippedIds.push(...assetIds.slice(i));
+        break;
+      }
+      result.deletedIds.push(...batch);
+    } catch (error) {
+      console.error("Error deleting assets:", error);
+      const gone = await findDeleted(batch);
+      batch.forEach((id) =>
+        (gone.has(id) ? result.deletedIds : result.failedIds).push(id)
+      );
+    }
+    onProgress?.(Math.min(i + batch.length, assetIds.length), assetIds.length);
+  }
+  return result;
+}
@@ -0,0 +1,135 @@
+// Difference hash (dHash): shrink the image to 9x8 grayscale and record
+// whether each pixel is brighter than its right neighbour. Resized, recompressed
+// or slightly edited copies of a photo end up only a few bits apart.
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+// Hashes at most this many bits apart are treated as the same shot
+export const DEFAULT_SIMILARITY_THRESHOLD = 6;
+
+// 64-bit hash as 16 hex digits from RGBA pixels of a 9x8 image
+export function dHashFromRgba(rgba: ArrayLike<number>): string {
+  const gray: number[] = [];
+  for (let i = 0; i < DHASH_WIDTH * DHASH_HEIGHT; i++) {
+    const offset = i * 4;
+    gray.push(
+      0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2]
+    );
+  }
+
+  let hex = "";
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    // Each row gives 8 bits, written as two hex digits
+    let row = 0;
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const left = gray[y * DHASH_WIDTH + x];
+      const right = gray[y * DHASH_WIDTH + x + 1];
+      row = (row << 1) | (left > right ? 1 : 0);
+    }
+    hex += row.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+// The hash as two 32-bit words, so bits can be compared a word at a time
+const toWords = (hex: string): [number, number] => [
+  parseInt(hex.slice(0, 8), 16),
+  parseInt(hex.slice(8, 16), 16),
+];
+
+// Number of set bits in a 32-bit word
+const popCount = (value: number) => {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+};
+
+const hammingDistance = (a: [number, number], b: [number, number]) =>
+  popCount(a[0] ^ b[0]) + popCount(a[1] ^ b[1]);
+
+const toBits = (hex: string) =>
+  Array.from(hex, (digit) =>
+    parseInt(digit, 16).toString(2).padStart(4, "0")
+  ).join("");
+
+// Groups hashes that are within threshold bits of each other, directly or
+// through other hashes, as they are added. The 64 bits are split into
+// threshold + 1 chunks of near-equal size. Two hashes that differ in at most
+// threshold bits must match exactly in at least one chunk, so a new hash is
+// only compared with the hashes sharing one of its chunks.
+export function createSimilarityIndex(
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+) {
+  const chunkCount = threshold + 1;
+  const chunkStarts = Array.from({ length: chunkCount + 1 }, (_, chunk) =>
+    Math.floor((chunk * 64) / chunkCount)
+  );
+  // Per chunk, the items having each value of that chunk's bits
+  const buckets = Array.from(
+    { length: chunkCount },
+    () => new Map<string, number[]>()
+  );
+  const ids: string[] = [];
+  const words: [number, number][] = [];
+
+  // Union-find over item positions
+  const parent: number[] = [];
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  // Items of every set with more than one item, keyed by the set's root
+  const members = new Map<number, number[]>();
+  const union = (a: number, b: number) => {
+    let rootA = find(a);
+    let rootB = find(b);
+    if (rootA === rootB) {
+      return;
+    }
+    let membersA = members.get(rootA) ?? [rootA];
+    let membersB = members.get(rootB) ?? [rootB];
+    // Merge the smaller set into the larger one
+    if (membersA.length < membersB.length) {
+      [rootA, rootB] = [rootB, rootA];
+      [membersA, membersB] = [membersB, membersA];
+    }
+    parent[rootB] = rootA;
+    membersA.push(...membersB);
+    members.set(rootA, membersA);
+    members.delete(rootB);
+  };
+
+  const add = (id: string, hash: string) => {
+    const item = ids.length;
+    ids.push(id);
+    words.push(toWords(hash));
+    parent.push(item);
+    const bits = toBits(hash);
+    buckets.forEach((bucketsByValue, chunk) => {
+      const value = bits.slice(chunkStarts[chunk], chunkStarts[chunk + 1]);
+      const bucket = bucketsByValue.get(value);
+      if (!bucket) {
+        bucketsByValue.set(value, [item]);
+        return;
+      }
+      bucket.forEach((other) => {
+        if (
+          find(other) !== find(item) &&
+          hammingDistance(words[item], words[other]) <= threshold
+        ) {
+          union(item, other);
+        }
+      });
+      bucket.push(item);
+    });
+  };
+
+  // Groups of two or more IDs, in no particular order
+  const groups = (): string[][] =>
+    [...members.values()].map((group) => group.map((item) => ids[item]));
+
+  return { add, groups };
+}
@@ -0,0 +1,132 @@
+// Limits the deck to assets created within a period
+export type ReviewScope =
+  | { kind: "all" }
+  | { kind: "lastDays"; days: number }
+  | { kind: "month"; year: number; month: number } // month is 0-11
+  | { kind: "year"; year: number }
+  | { kind: "onThisDay" };
+
+// Bounds in ms, passed to getAssetsAsync as createdAfter/createdBefore
+export type DateRange = {
+  createdAfter?: number;
+  createdBefore?: number;
+};
+
+export const ALL_TIME_SCOPE: ReviewScope = { kind: "all" };
+
+// How many past years "on this day" looks back
+const ON_THIS_DAY_YEARS = 20;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// createdAfter is exclusive, so start one millisecond early
+const rangeBetween = (start: Date, end: Date): DateRange => ({
+  createdAfter: start.getTime() - 1,
+  createdBefore: end.getTime(),
+});
+
+// Resolve a scope to date ranges, newest range first
+export function resolveScopeRanges(
+  scope: ReviewScope,
+  now: Date = new Date()
+): DateRange[] {
+  switch (scope.kind) {
+    case "all":
+      return [{}];
+    case "lastDays":
+      return [{ createdAfter: now.getTime() - scope.days * DAY_MS }];
+    case "month":
+      return [
+        rangeBetween(
+          new Date(scope.year, scope.month, 1),
+          new Date(scope.year, scope.month + 1, 1)
+        ),
+      ];
+    case "year":
+      return [
+        rangeBetween(
+          new Date(scope.year, 0, 1),
+          new Date(scope.year + 1, 0, 1)
+        ),
+      ];
+    case "onThisDay": {
+      const ranges: DateRange[] = [];
+      for (let yearsAgo = 1; yearsAgo <= ON_THIS_DAY_YEARS; yearsAgo++) {
+        const year = now.getFullYear() - yearsAgo;
+        ranges.push(
+          rangeBetween(
+            new Date(year, now.getMonth(), now.getDate()),
+            new Date(year, now.getMonth(), now.getDate() + 1)
+          )
+        );
+      }
+      return ranges;
+    }
+  }
+}
+
+export function describeScope(scope: ReviewScope): string {
+  switch (scope.kind) {
+    case "all":
+      return "All time";
+    case "lastDays":
+      return `Last ${scope.days} days`;
+    case "month":
+      return `${MONTH_NAMES[scope.month]} ${scope.year}`;
+    case "year":
+      return String(scope.year);
+    case "onThisDay":
+      return "On this day";
+  }
+}
+
+export function monthName(month: number): string {
+  return MONTH_NAMES[month];
+}
+
+// Validate a scope read back from storage
+export function parseScope(value: string | null): ReviewScope | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    switch (parsed?.kind) {
+      case "all":
+      case "onThisDay":
+        return { kind: parsed.kind };
+      case "lastDays":
+        return typeof parsed.days === "number" ? parsed : null;
+      case "month":
+        return typeof parsed.year === "number" &&
+          typeof parsed.month === "number"
+          ? parsed
+          : null;
+      case "year":
+        return typeof parsed.year === "number" ? parsed : null;
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+export function isSameScope(a: ReviewScope, b: ReviewScope): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,66 @@
+import { Dimensions, PixelRatio } from "react-native";
+
+// What the deck is drawn from: the whole library, only screen captures, or
+// the images the user set aside to decide on later
+export type ReviewQueue = "library" | "screenshots" | "later";
+
+export const isReviewQueue = (value: string | null): value is ReviewQueue =>
+  value === "library" || value === "screenshots" || value === "later";
+
+// Minimum age in days offered for the screenshot queue, 0 means any age
+export const SCREENSHOT_AGE_OPTIONS = [0, 7, 30, 90, 365];
+
+export const describeMinAge = (days: number) => {
+  if (days === 0) {
+    return "Any age";
+  }
+  return days === 365 ? "Older than a year" : `Older than ${days} days`;
+};
+
+// Albums the system saves screen captures to (iOS smart albums, Android folders)
+const SCREENSHOT_ALBUM_PATTERN = /^screen ?(shots?|recordings?)$/i;
+
+// "Screenshot_20240101-…", "Screen Shot 2024-…", "Screen_Recording_…",
+// "Screenrecorder-…" and iOS screen recordings ("RPReplay_Final…")
+const SCREENSHOT_FILENAME_PATTERN =
+  /^(screen[ _-]?shot|screen[ _-]?record|rpreplay)/i;
+
+// Screenshots are saved as PNG, camera frames as JPEG or HEIC
+const PNG_FILENAME_PATTERN = /\.png$/i;
+
+export const isScreenshotAlbum = (title: string) =>
+  SCREENSHOT_ALBUM_PATTERN.test(title);
+
+// Whether the size is exactly this device's screen in either orientation
+const matchesScreenSize = (width: number, height: number) => {
+  const screen = Dimensions.get("screen");
+  const screenWidth = PixelRatio.getPixelSizeForLayoutSize(screen.width);
+  const screenHeight = PixelRatio.getPixelSizeForLayoutSize(screen.height);
+  return (
+    (width === screenWidth && height === screenHeight) ||
+    (width === screenHeight && height === screenWidth)
+  );
+};
+
+// Any one strong sign is enough: the subtype (iOS only), a screenshot-style
+// filename or being in a screenshots album. The exact screen resolution is
+// shared by camera frames and saved images, so it only counts for PNG files
+// (iOS names screenshots like photos, "IMG_1234.PNG").
+export function isScreenshot(
+  asset: {
+    id: string;
+    filename: string;
+    width: number;
+    height: number;
+    mediaSubtypes: string[];
+  },
+  screenshotAlbumAssetIds: ReadonlySet<string>
+): boolean {
+  return (
+    asset.mediaSubtypes.includes("screenshot") ||
+    SCREENSHOT_FILENAME_PATTERN.test(asset.filename) ||
+    (PNG_FILENAME_PATTERN.test(asset.filename) &&
+      matchesScreenSize(asset.width, asset.height)) ||
+    screenshotAlbumAssetIds.has(asset.id)
+  );
+}
@@ -0,0 +1,47 @@
+// Shots taken within this many seconds of the previous one form a series
+export const DEFAULT_SERIES_WINDOW_SECONDS = 3;
+
+// Windows offered in settings, 0 turns series off
+export const SERIES_WINDOW_OPTIONS = [0, 1, 3, 5, 10, 30];
+
+export type SeriesInfo = {
+  // IDs of every image in the series, in deck order
+  ids: string[];
+  // Zero-based position of the image within the series
+  position: number;
+};
+
+// Group consecutive images whose creation times are at most windowSeconds
+// apart. Only images in a series of two or more get an entry.
+export function findSeries(
+  images: { id: string; creationTime: number }[],
+  windowSeconds: number
+): Map<string, SeriesInfo> {
+  const seriesById = new Map<string, SeriesInfo>();
+  if (windowSeconds <= 0) {
+    return seriesById;
+  }
+
+  const addSeries = (ids: string[]) => {
+    if (ids.length > 1) {
+      ids.forEach((id, position) => seriesById.set(id, { ids, position }));
+    }
+  };
+
+  let current: string[] = [];
+  images.forEach((img, i) => {
+    const previous = images[i - 1];
+    // creationTime is in milliseconds; the deck may run either way in time
+    if (
+      previous &&
+      Math.abs(img.creationTime - previous.creationTime) <= windowSeconds * 1000
+    ) {
+      current.push(img.id);
+    } else {
+      addSeries(current);
+      current = [img.id];
+    }
+  });
+  addSeries(current);
+  return seriesById;
+}
@@ -0,0 +1,48 @@
+export type SortOrder = "newest" | "oldest" | "largest" | "shuffle" | "album";
+
+export const SORT_ORDER_OPTIONS: { value: SortOrder; title: string }[] = [
+  { value: "newest", title: "Newest first" },
+  { value: "oldest", title: "Oldest first" },
+  { value: "largest", title: "Largest files first" },
+  { value: "shuffle", title: "Shuffle" },
+  { value: "album", title: "Grouped by album" },
+];
+
+export const isSortOrder = (value: string | null): value is SortOrder =>
+  SORT_ORDER_OPTIONS.some((option) => option.value === value);
+
+// Orders the media library can page through by itself; the others need the
+// whole list in memory before it can be sorted
+export const isStreamedSortOrder = (order: SortOrder) =>
+  order === "newest" || order === "oldest";
+
+export const createShuffleSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+// mulberry32, so the same seed always gives the same order
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates shuffle with a seeded generator. Items are first put in ID
+// order so the result doesn't depend on the order they were loaded in.
+export function seededShuffle<T extends { id: string }>(
+  items: T[],
+  seed: number
+): T[] {
+  const random = createRandom(seed);
+  const result = [...items].sort((a, b) =>
+    a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+  );
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,123 @@
+import * as MediaLibrary from "expo-media-library";
+import * as Sharing from "expo-sharing";
+
+export type SwipeDirection = "left" | "right" | "up" | "down";
+
+export const SWIPE_DIRECTIONS: readonly SwipeDirection[] = [
+  "left",
+  "right",
+  "up",
+  "down",
+];
+
+// What a swipe (or its button) does to the image
+export type SwipeAction =
+  "delete" | "keep" | "favorite" | "skip" | "album" | "share";
+
+export const SWIPE_ACTIONS: readonly SwipeAction[] = [
+  "delete",
+  "keep",
+  "favorite",
+  "skip",
+  "album",
+  "share",
+];
+
+export const isSwipeAction = (value: unknown): value is SwipeAction =>
+  typeof value === "string" && SWIPE_ACTIONS.includes(value as SwipeAction);
+
+// How an action is shown on its button and on the card's swipe overlay
+export const SWIPE_ACTION_INFO: Record<
+  SwipeAction,
+  { title: string; overlayLabel: string; icon: string; color: string }
+> = {
+  delete: {
+    title: "Delete",
+    overlayLabel: "DELETE",
+    icon: "times",
+    color: "#ff4444",
+  },
+  keep: {
+    title: "Keep",
+    overlayLabel: "KEEP",
+    icon: "heart",
+    color: "#4CAF50",
+  },
+  favorite: {
+    title: "Favorite",
+    overlayLabel: "FAVORITE",
+    icon: "star",
+    color: "#FFB300",
+  },
+  skip: {
+    title: "Later",
+    overlayLabel: "LATER",
+    icon: "clock",
+    color: "#2196F3",
+  },
+  album: {
+    title: "Add to album",
+    overlayLabel: "ALBUM",
+    icon: "folder-plus",
+    color: "#9C27B0",
+  },
+  share: {
+    title: "Share",
+    overlayLabel: "SHARE",
+    icon: "share-square",
+    color: "#607D8B",
+  },
+};
+
+// The action bound to each swipe direction and its button
+export type SwipeActionMap = Readonly<Record<SwipeDirection, SwipeAction>>;
+
+export const DEFAULT_SWIPE_ACTION_MAP: SwipeActionMap = {
+  left: "delete",
+  right: "keep",
+  up: "favorite",
+  down: "skip",
+};
+
+// Read a stored map, falling back to the default for anything missing
+export const parseSwipeActionMap = (stored: string | null): SwipeActionMap => {
+  if (!stored) {
+    return DEFAULT_SWIPE_ACTION_MAP;
+  }
+  const parsed: unknown = JSON.parse(stored);
+  if (typeof parsed !== "object" || parsed === null) {
+    return DEFAULT_SWIPE_ACTION_MAP;
+  }
+  const entries = parsed as Partial<Record<SwipeDirection, unknown>>;
+  const map = { ...DEFAULT_SWIPE_ACTION_MAP };
+  SWIPE_DIRECTIONS.forEach((direction) => {
+    const action = entries[direction];
+    if (isSwipeAction(action)) {
+      map[direction] = action;
+    }
+  });
+  return map;
+};
+
+// Direction bound to the action, for animating an undone step back in
+export const directionForAction = (
+  map: SwipeActionMap,
+  action: SwipeAction
+): SwipeDirection | undefined =>
+  SWIPE_DIRECTIONS.find((direction) => map[direction] === action);
+
+// Add the asset to an album. Android copies the file into the album's folder,
+// since moving it would give the asset a new ID and lose its decision.
+export async function addAssetToAlbum(assetId: string, albumId: string) {
+  await MediaLibrary.addAssetsToAlbumAsync([assetId], albumId, true);
+}
+
+// Open the system share sheet with the asset's file, so other apps receive
+// the photo itself rather than its location
+export async function shareAsset(assetId: string) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+  const info = await MediaLibrary.getAssetInfoAsync(assetId);
+  await Sharing.shareAsync(info.localUri ?? info.uri);
+}